@@ -1,5 +1,6 @@
 import React, {
   forwardRef,
+  useEffect,
   useImperativeHandle,
   useRef,
   useState,
@@ -11,6 +12,14 @@ import {
   Canvas,
   Path,
   Group,
+  Rect,
+  Circle,
+  DashPathEffect,
+  Image,
+  Paint,
+  Picture,
+  Text,
+  matchFont,
   useCanvasRef,
   ImageFormat,
   Skia,
@@ -25,7 +34,7 @@ import {
   PanGesture,
 } from "react-native-gesture-handler";
 import { useSharedValue, useDerivedValue } from "react-native-reanimated";
-import { View, StyleSheet } from "react-native";
+import { View, StyleSheet, Platform } from "react-native";
 import type {
   PerfectCanvasProps,
   PerfectCanvasRef,
@@ -34,25 +43,143 @@ import type {
   DrawingState,
   StrokeOptions,
   HapticStyle,
+  DrawingTool,
+  EraserMode,
+  SelectionMode,
+  ShapeData,
+  ShapeType,
+  ShapeRenderMode,
+  RecognizedShape,
+  StrokeBlendMode,
+  HistoryEntry,
+  HistoryExportOptions,
+  HistoryImportOptions,
+  SetPathsOptions,
+  TextElement,
+  NewTextElement,
+  CanvasContent,
+  CanvasStyle,
+  ContentPatch,
+  Layer,
+  LayerContent,
+  BackgroundImageFit,
+  BackgroundImageSource,
+  CanvasRect,
+  PaperOptions,
+  SnapMode,
+  SvgExportOptions,
+  SvgImportOptions,
+  SvgImportResult,
+  CanvasDocument,
+  DocumentMetadata,
+  DocumentExportOptions,
+  DocumentImportOptions,
+  PdfExportOptions,
+  BinaryEncodeOptions,
+  ReplayController,
+  ReplayOptions,
 } from "../types";
 import {
   generateId,
   processPoints,
-  simplifyPath,
+  getSimplifiedIndices,
   createSvgFromPaths,
+  applyHistoryCommand,
+  createRemoveCommand,
+  createReplaceCommand,
+  diffById,
+  createRemoveTextCommand,
+  createRemoveLayerCommand,
+  createDefaultLayers,
+  createLayer,
+  parseSvgDocument,
+  createDocument,
+  parseDocument,
+  validatePaths,
+  encodePaths,
+  decodePaths,
+  createPdfFromPaths,
+  createReplayTimeline,
+  createReplayPlayer,
+  getReplayFrame,
+  spreadTimestamps,
+  bytesToBase64,
+  getContentByLayer,
+  getEditableLayerIds,
+  moveLayer,
+  resolveLayerId,
+  DEFAULT_LAYER_ID,
+  getImageFitRect,
+  getPaperSvgPath,
+  snapToPaper,
+  DEFAULT_PAPER_COLOR,
+  DEFAULT_PAPER_SPACING,
+  DEFAULT_MARGIN_COLOR,
+  erasePathSegment,
+  findPathsNearSegment,
+  getSelectionHandles,
+  getShapePoints,
+  regenerateSvgPath,
+  recognizeShape,
+  SpatialIndex,
+  findTextAt,
+  getTextLines,
+  TEXT_LINE_HEIGHT,
   HistoryManager,
+  HistoryCommand,
+  SerializedHistory,
+  ReplayTimeline,
 } from "../utils";
-import { useHaptics, useDrawingGesture, useZoomGesture } from "../hooks";
+import {
+  useHaptics,
+  useDrawingGesture,
+  useZoomGesture,
+  useSelection,
+  useBackgroundImage,
+  useCollaboration,
+  useLiveStroke,
+  usePathPictures,
+  useViewportRect,
+  PathSegment,
+} from "../hooks";
+
+const SELECTION_COLOR = "#3b82f6";
+
+// Remote cursors without a colour of their own
+const DEFAULT_CURSOR_COLOR = "#ef4444";
+const CURSOR_RADIUS = 6;
+const CURSOR_LABEL_SIZE = 14;
+
+// Movement (in screen pixels) still counted as holding still for snapping
+const DWELL_TOLERANCE = 4;
+
+// Movement (in screen pixels) after which a text tool gesture is no longer a tap
+const TAP_TOLERANCE = 10;
+
+// Paper is hidden once its lines would be closer than this on screen
+const MIN_PAPER_SPACING = 4;
+
+const DEFAULT_FONT_FAMILY =
+  Platform.select({ ios: "Helvetica", default: "sans-serif" }) ?? "sans-serif";
 
 const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
   (props, ref): React.ReactElement => {
     const {
       style,
       backgroundColor = "white",
+      backgroundImage,
+      backgroundImageFit = "contain",
+      backgroundImageRect,
+      paper,
+      snapMode = "off",
       strokeColor: propStrokeColor = "black",
       strokeWidth: propStrokeWidth = 8,
       strokeOpacity: propStrokeOpacity = 1,
       strokeOptions = {},
+      blendMode,
+      highlighterColor = "#ffeb3b",
+      highlighterWidth = 24,
+      highlighterOpacity = 0.4,
       enableHaptics = true,
       hapticStyle = "light",
       enableZoom = false,
@@ -63,11 +190,36 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
       simplifyPaths = true,
       simplifyTolerance = 1,
       renderMode = "continuous",
+      tool = "pen",
+      eraserSize = 20,
+      eraserMode = "stroke",
+      selectionMode = "lasso",
+      shapeType = "rectangle",
+      shapeRenderMode = "freehand",
+      polygonSides = 5,
+      enableShapeRecognition = false,
+      shapeRecognitionDelay = 500,
+      shapeRecognitionThreshold = 0.75,
+      fontSize = 24,
+      fontFamily,
+      textPlaceholder = "Text",
+      collaboration,
+      collaborationUser,
+      showRemoteCursors = true,
       onDrawStart,
       onDrawUpdate,
       onDrawEnd,
       onPathComplete,
-      // onStateChange,
+      onPathsErased,
+      onSelectionChange,
+      onShapeRecognized,
+      onTextCreate,
+      onTextPress,
+      onLayersChange,
+      onActiveLayerChange,
+      onStateChange,
+      onChange,
+      onHistoryChange,
       onZoomChange,
       onTranslateChange,
       // onRotationChange,
@@ -77,6 +229,16 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
 
     // State
     const [paths, setPaths] = useState<PathData[]>([]);
+    const [texts, setTexts] = useState<TextElement[]>([]);
+    const [layers, setLayers] = useState<Layer[]>(createDefaultLayers);
+    const [activeLayerId, setActiveLayerId] = useState(DEFAULT_LAYER_ID);
+    // Playback started by replay(); while set, its frame is shown in place of
+    // the content
+    const [replayState, setReplayState] = useState<{
+      timeline: ReplayTimeline;
+      time: number;
+    } | null>(null);
+    const replayController = useRef<ReplayController | null>(null);
     const [currentStrokeColor, setCurrentStrokeColor] = useState(
       typeof propStrokeColor === "string" ? propStrokeColor : "black"
     );
@@ -86,24 +248,106 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
     const [currentStrokeOpacity, setCurrentStrokeOpacity] = useState(
       typeof propStrokeOpacity === "number" ? propStrokeOpacity : 1
     );
+    const [currentBlendMode, setCurrentBlendMode] = useState<
+      StrokeBlendMode | undefined
+    >(blendMode);
+    const [currentHighlighterColor, setCurrentHighlighterColor] =
+      useState(highlighterColor);
+    const [currentHighlighterWidth, setCurrentHighlighterWidth] =
+      useState(highlighterWidth);
     const [currentBackgroundColor, setCurrentBackgroundColor] =
       useState(backgroundColor);
+    const [currentBackgroundImage, setCurrentBackgroundImage] = useState<
+      BackgroundImageSource | null | undefined
+    >(backgroundImage);
+    const [currentBackgroundImageFit, setCurrentBackgroundImageFit] =
+      useState<BackgroundImageFit>(backgroundImageFit);
+    const [currentPaper, setCurrentPaper] = useState<
+      PaperOptions | null | undefined
+    >(paper);
+    const [currentSnapMode, setCurrentSnapMode] = useState<SnapMode>(snapMode);
     const [hapticsEnabled, setHapticsEnabled] = useState(enableHaptics);
     const [currentHapticStyle, setCurrentHapticStyle] = useState(hapticStyle);
     const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
+    const [currentTool, setCurrentTool] = useState<DrawingTool>(tool);
+    const [currentEraserSize, setCurrentEraserSize] = useState(eraserSize);
+    const [currentEraserMode, setCurrentEraserMode] =
+      useState<EraserMode>(eraserMode);
+    const [currentSelectionMode, setCurrentSelectionMode] =
+      useState<SelectionMode>(selectionMode);
+    const [currentShapeType, setCurrentShapeType] =
+      useState<ShapeType>(shapeType);
+    const [currentShapeRenderMode, setCurrentShapeRenderMode] =
+      useState<ShapeRenderMode>(shapeRenderMode);
+    const [currentFontSize, setCurrentFontSize] = useState(fontSize);
+    const [previewStyle, setPreviewStyle] = useState<"fill" | "stroke">("fill");
 
     // Refs
     const canvasRef = useCanvasRef();
     const historyManager = useRef(new HistoryManager(maxHistorySize));
+    const pathsRef = useRef<PathData[]>([]);
+    // Grid over the path bounds, brought up to date on each use
+    const spatialIndex = useRef(new SpatialIndex());
+    const textsRef = useRef<TextElement[]>([]);
+    const layersRef = useRef<Layer[]>(layers);
     const currentPathPoints = useRef<Point[]>([]);
     const isDrawingRef = useRef(false);
+    // Stroke or shape being drawn, as reported in DrawingState
+    const currentPathRef = useRef<PathData | null>(null);
+    // Why the content is about to change, for the next onChange patch
+    const changeReason = useRef<Pick<ContentPatch, "type" | "label"> | null>(
+      null
+    );
     const lastDrawTime = useRef<number>(0);
+    // Metadata of the loaded document, so exports keep its creation time
+    const documentMetadata = useRef<DocumentMetadata>({});
     const lastDrawPoint = useRef<Point | null>(null);
+    const eraseBasePaths = useRef<PathData[]>([]);
+    const erasedIds = useRef<Set<string>>(new Set());
+    const eraseOrigins = useRef<Map<string, string>>(new Map());
+    const recognitionTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const dwellAnchor = useRef<Point | null>(null);
+    const snappedShape = useRef<{
+      result: RecognizedShape;
+      path: PathData;
+    } | null>(null);
 
     // Shared values for animated props
     const strokeColorShared = useSharedValue(currentStrokeColor);
     const strokeWidthShared = useSharedValue(currentStrokeWidth);
     const currentPathShared = useSharedValue<string>("");
+    // Lets the UI thread outline the stroke once it's accepted here, until a
+    // snapped shape takes its place or the gesture ends
+    const liveStrokeActive = useSharedValue(false);
+    const liveStrokeStart = useSharedValue<Point | null>(null);
+
+    // Background image - drawn in world space beneath every layer, so it
+    // zooms and pans with the strokes but is never erased or selected
+    const backgroundSkImage = useBackgroundImage(currentBackgroundImage);
+
+    const backgroundFrame = useMemo(
+      (): CanvasRect =>
+        backgroundImageRect ?? {
+          x: 0,
+          y: 0,
+          width: canvasSize.width,
+          height: canvasSize.height,
+        },
+      [backgroundImageRect, canvasSize]
+    );
+
+    const backgroundImageBounds = useMemo(
+      (): CanvasRect | null =>
+        backgroundSkImage
+          ? getImageFitRect(
+              backgroundSkImage.width(),
+              backgroundSkImage.height(),
+              backgroundFrame,
+              currentBackgroundImageFit
+            )
+          : null,
+      [backgroundSkImage, backgroundFrame, currentBackgroundImageFit]
+    );
 
     // Haptics
     const {
@@ -116,6 +360,236 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
       style: currentHapticStyle,
     });
 
+    // Collaboration - local path changes go out as ops; remote ones replace
+    // the paths directly, outside the history, once no gesture is running
+    const {
+      remoteStrokes,
+      remoteCursors,
+      commitPaths,
+      flushRemote,
+      streamStroke,
+      moveCursor,
+    } = useCollaboration({
+      adapter: collaboration,
+      user: collaborationUser,
+      pathsRef,
+      isBusy: (): boolean => isDrawingRef.current,
+      onRemotePaths: (nextPaths: PathData[]): void => {
+        changeReason.current = { type: "remote" };
+        pathsRef.current = nextPaths;
+        setPaths(nextPaths);
+      },
+    });
+
+    // Keep a synchronous copy of paths so history commands always apply
+    // against the latest state, even before React re-renders
+    const updatePaths = useCallback(
+      (nextPaths: PathData[]): void => {
+        const sharedPaths = commitPaths(pathsRef.current, nextPaths);
+        pathsRef.current = sharedPaths;
+        setPaths(sharedPaths);
+      },
+      [commitPaths]
+    );
+
+    const updateTexts = useCallback((nextTexts: TextElement[]): void => {
+      textsRef.current = nextTexts;
+      setTexts(nextTexts);
+    }, []);
+
+    const updateLayers = useCallback(
+      (nextLayers: Layer[]): void => {
+        layersRef.current = nextLayers;
+        setLayers(nextLayers);
+        onLayersChange?.(nextLayers);
+      },
+      [onLayersChange]
+    );
+
+    const getContent = useCallback(
+      (): CanvasContent => ({
+        paths: pathsRef.current,
+        texts: textsRef.current,
+        layers: layersRef.current,
+      }),
+      []
+    );
+
+    // Only touches the state that changed so untouched elements don't re-render
+    const updateContent = useCallback(
+      (content: CanvasContent): void => {
+        if (content.paths !== pathsRef.current) {
+          updatePaths(content.paths);
+        }
+        if (content.texts !== textsRef.current) {
+          updateTexts(content.texts);
+        }
+        if (content.layers !== layersRef.current) {
+          updateLayers(content.layers);
+        }
+      },
+      [updatePaths, updateTexts, updateLayers]
+    );
+
+    const emitHistoryChange = useCallback((): void => {
+      const history = historyManager.current;
+      onHistoryChange?.({
+        canUndo: history.canUndo(),
+        canRedo: history.canRedo(),
+        index: history.getIndex(),
+        size: history.getSize(),
+        currentId: history.getCurrentId(),
+      });
+    }, [onHistoryChange]);
+
+    // Content is what the command applies to, when a gesture has already
+    // changed the live content (e.g. erasing)
+    const executeCommand = useCallback(
+      (
+        command: HistoryCommand,
+        label: string,
+        content: CanvasContent = getContent()
+      ): void => {
+        changeReason.current = {
+          type: label === "clear" ? "clear" : "change",
+          label,
+        };
+        historyManager.current.push(command, label);
+        updateContent(applyHistoryCommand(content, command));
+        emitHistoryChange();
+      },
+      [getContent, updateContent, emitHistoryChange]
+    );
+
+    // The stroke or shape being drawn. State events fire for every point, so
+    // a freehand stroke hands out its growing point list rather than a copy,
+    // and no outline until it's committed, or each event would cost as much
+    // as the whole stroke.
+    const getCurrentPath = useCallback((): DrawingState["currentPath"] => {
+      const path = currentPathRef.current;
+      return path && { ...path };
+    }, []);
+
+    const getDrawingState = useCallback(
+      (): DrawingState => ({
+        paths: pathsRef.current,
+        texts: textsRef.current,
+        layers: layersRef.current,
+        activeLayerId,
+        currentPath: getCurrentPath(),
+        isDrawing: isDrawingRef.current,
+        strokeColor: currentStrokeColor,
+        strokeWidth: currentStrokeWidth,
+        strokeOpacity: currentStrokeOpacity,
+      }),
+      [
+        activeLayerId,
+        getCurrentPath,
+        currentStrokeColor,
+        currentStrokeWidth,
+        currentStrokeOpacity,
+      ]
+    );
+
+    useEffect((): void => {
+      onStateChange?.(getDrawingState());
+    }, [paths, texts, layers, getDrawingState, onStateChange]);
+
+    // Change patches - content is compared with what was last reported, so
+    // a gesture's live updates (e.g. erasing) arrive as one patch at its end
+    const reportedContent = useRef<CanvasContent>({ paths, texts, layers });
+    useEffect((): void => {
+      if (isDrawingRef.current) return;
+      const before = reportedContent.current;
+      const content = { paths, texts, layers };
+      const reason = changeReason.current ?? { type: "change" };
+      reportedContent.current = content;
+      changeReason.current = null;
+
+      const patch: ContentPatch = {
+        ...reason,
+        paths: diffById(before.paths, paths),
+        texts: diffById(before.texts, texts),
+        ...(layers !== before.layers ? { layers } : {}),
+      };
+      const changed =
+        !!patch.layers ||
+        [patch.paths, patch.texts].some(
+          ({ added, removed, updated }): boolean =>
+            added.length + removed.length + updated.length > 0
+        );
+      if (changed) onChange?.(patch, content);
+    }, [paths, texts, layers, onChange]);
+
+    const canvasStyle = useMemo(
+      (): CanvasStyle => ({
+        strokeColor: currentStrokeColor,
+        strokeWidth: currentStrokeWidth,
+        strokeOpacity: currentStrokeOpacity,
+        blendMode: currentBlendMode,
+        highlighterColor: currentHighlighterColor,
+        highlighterWidth: currentHighlighterWidth,
+        backgroundColor: currentBackgroundColor,
+      }),
+      [
+        currentStrokeColor,
+        currentStrokeWidth,
+        currentStrokeOpacity,
+        currentBlendMode,
+        currentHighlighterColor,
+        currentHighlighterWidth,
+        currentBackgroundColor,
+      ]
+    );
+    const reportedStyle = useRef(canvasStyle);
+    useEffect((): void => {
+      const before = reportedStyle.current;
+      reportedStyle.current = canvasStyle;
+      const changes: Partial<CanvasStyle> = {};
+      (Object.keys(canvasStyle) as (keyof CanvasStyle)[]).forEach(
+        (key): void => {
+          if (canvasStyle[key] !== before[key]) {
+            Object.assign(changes, { [key]: canvasStyle[key] });
+          }
+        }
+      );
+      if (Object.keys(changes).length > 0) {
+        onChange?.({ type: "style", changes }, getContent());
+      }
+    }, [canvasStyle, onChange, getContent]);
+
+    // Layers - new content goes to the active layer; hidden and locked layers
+    // can't be drawn on, erased or selected
+    const changeActiveLayer = useCallback(
+      (id: string): void => {
+        setActiveLayerId(id);
+        onActiveLayerChange?.(id);
+      },
+      [onActiveLayerChange]
+    );
+
+    // The active layer may disappear through undo or deletion
+    useEffect((): void => {
+      if (!layers.some((layer): boolean => layer.id === activeLayerId)) {
+        changeActiveLayer(layers[layers.length - 1].id);
+      }
+    }, [layers, activeLayerId, changeActiveLayer]);
+
+    const editableLayerIds = useMemo(
+      (): Set<string> => getEditableLayerIds(layers),
+      [layers]
+    );
+
+    const isEditable = useCallback(
+      (item: { layerId?: string }): boolean => {
+        const layerId = resolveLayerId(item, layers);
+        return layerId !== undefined && editableLayerIds.has(layerId);
+      },
+      [layers, editableLayerIds]
+    );
+
+    const canDrawOnActiveLayer = editableLayerIds.has(activeLayerId);
+
     // Stroke options with defaults
     const finalStrokeOptions: StrokeOptions = useMemo(
       (): StrokeOptions => ({
@@ -128,30 +602,487 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
       [currentStrokeWidth, strokeOptions]
     );
 
+    // Style of the freehand stroke being drawn. Highlighters use a constant
+    // width with flat caps and multiply over what is beneath them.
+    const activeStroke = useMemo((): {
+      color: string;
+      width: number;
+      opacity: number;
+      blendMode?: StrokeBlendMode;
+      options: StrokeOptions;
+    } => {
+      if (currentTool === "highlighter") {
+        return {
+          color: currentHighlighterColor,
+          width: currentHighlighterWidth,
+          opacity: highlighterOpacity,
+          blendMode: "multiply",
+          options: {
+            size: currentHighlighterWidth,
+            thinning: 0,
+            smoothing: 0.5,
+            streamline: 0.5,
+            start: { taper: 0, cap: false },
+            end: { taper: 0, cap: false },
+          },
+        };
+      }
+      return {
+        color: currentStrokeColor,
+        width: currentStrokeWidth,
+        opacity: currentStrokeOpacity,
+        blendMode: currentBlendMode,
+        options: finalStrokeOptions,
+      };
+    }, [
+      currentTool,
+      currentHighlighterColor,
+      currentHighlighterWidth,
+      highlighterOpacity,
+      currentStrokeColor,
+      currentStrokeWidth,
+      currentStrokeOpacity,
+      currentBlendMode,
+      finalStrokeOptions,
+    ]);
+
+    // Zoom gesture - always call the hook
+    const {
+      combinedGesture,
+      // pinchGesture,
+      // panGesture,
+      scale,
+      translation,
+      reset: resetZoom,
+      setScale,
+      isPinching,
+      isPanning,
+    } = useZoomGesture({
+      enabled: enableZoom,
+      minScale: zoomRange[0],
+      maxScale: zoomRange[1],
+      onScaleChange: onZoomChange,
+      onTranslateChange: onTranslateChange,
+      canvasWidth: canvasSize.width || undefined,
+      canvasHeight: canvasSize.height || undefined,
+    });
+
+    // Area around the view; paths outside it aren't rendered
+    const viewportRect = useViewportRect({
+      scale,
+      translation,
+      width: canvasSize.width,
+      height: canvasSize.height,
+    });
+
+    // Eraser - paths are hidden or cut while dragging and the whole drag is
+    // recorded as a single command when the finger lifts
+    const eraseAlong = useCallback(
+      (from: Point, to: Point): void => {
+        // Eraser size is in screen pixels, points are in world coordinates
+        const radius = currentEraserSize / 2 / (enableZoom ? scale.value : 1);
+
+        if (currentEraserMode === "partial") {
+          let changed = false;
+          const nextPaths = pathsRef.current.flatMap((path): PathData[] => {
+            if (!isEditable(path)) return [path];
+
+            const fragments = erasePathSegment(path, from, to, radius);
+            if (!fragments) return [path];
+
+            // Track fragments back to the path they were cut from
+            const originId = eraseOrigins.current.get(path.id) ?? path.id;
+            erasedIds.current.add(originId);
+            fragments.forEach((fragment): void => {
+              eraseOrigins.current.set(fragment.id, originId);
+            });
+            changed = true;
+            return fragments;
+          });
+          if (!changed) return;
+
+          updatePaths(nextPaths);
+          if (hapticsEnabled) {
+            triggerHaptic(0.3);
+          }
+          return;
+        }
+
+        const remaining = eraseBasePaths.current.filter(
+          (path): boolean => !erasedIds.current.has(path.id)
+        );
+        const hits = findPathsNearSegment(
+          remaining.filter(isEditable),
+          from,
+          to,
+          radius
+        );
+        if (hits.length === 0) return;
+
+        hits.forEach((id): void => {
+          erasedIds.current.add(id);
+        });
+        updatePaths(
+          remaining.filter((path): boolean => !erasedIds.current.has(path.id))
+        );
+
+        if (hapticsEnabled) {
+          triggerHaptic(0.3);
+        }
+      },
+      [
+        currentEraserSize,
+        currentEraserMode,
+        enableZoom,
+        scale,
+        isEditable,
+        updatePaths,
+        hapticsEnabled,
+        triggerHaptic,
+      ]
+    );
+
+    const commitErase = useCallback((): void => {
+      const command =
+        currentEraserMode === "partial"
+          ? createReplaceCommand(
+              eraseBasePaths.current,
+              pathsRef.current,
+              erasedIds.current
+            )
+          : createRemoveCommand(eraseBasePaths.current, erasedIds.current);
+      const ids = Array.from(erasedIds.current);
+      // The paths are already erased on screen, so the command is applied to
+      // the ones from before the drag
+      const base = { ...getContent(), paths: eraseBasePaths.current };
+
+      eraseBasePaths.current = [];
+      erasedIds.current = new Set();
+      eraseOrigins.current = new Map();
+
+      if (command) {
+        executeCommand(command, "erase", base);
+        onPathsErased?.(ids);
+      }
+    }, [currentEraserMode, getContent, executeCommand, onPathsErased]);
+
+    // Selection - lasso/rectangle select, then move, scale or rotate
+    const {
+      selectedIds,
+      selectedBounds,
+      selectionMatrix,
+      selectionOutline,
+      setSelection,
+      handleStart: handleSelectionStart,
+      handleUpdate: handleSelectionUpdate,
+      handleEnd: handleSelectionEnd,
+    } = useSelection({
+      paths,
+      pathsRef,
+      executeCommand,
+      mode: currentSelectionMode,
+      scale: enableZoom ? scale : undefined,
+      isSelectable: isEditable,
+      onSelectionChange,
+    });
+
+    // Shapes drawn with the shape tool are defined by the drag box from the
+    // first to the last point
+    const createDragShape = useCallback(
+      (start: Point, end: Point): ShapeData => {
+        const snap = (point: Point): Point =>
+          currentPaper && currentSnapMode !== "off"
+            ? snapToPaper(point, currentPaper)
+            : point;
+        const [x0, y0] = snap(start);
+        const [x1, y1] = snap(end);
+        return {
+          type: currentShapeType,
+          start: [x0, y0],
+          end: [x1, y1],
+          ...(currentShapeType === "polygon" ? { sides: polygonSides } : {}),
+        };
+      },
+      [currentShapeType, polygonSides, currentPaper, currentSnapMode]
+    );
+
+    // Freehand strokes can start on the nearest grid point
+    const snapStrokeStart = useCallback(
+      (points: Point[]): Point[] =>
+        currentPaper && currentSnapMode === "all" && points.length > 0
+          ? [snapToPaper(points[0], currentPaper), ...points.slice(1)]
+          : points,
+      [currentPaper, currentSnapMode]
+    );
+
+    const createShapePath = useCallback(
+      (shape: ShapeData): PathData => {
+        const path: PathData = {
+          id: generateId(),
+          points: getShapePoints(shape),
+          svgPath: "",
+          color: currentStrokeColor,
+          width: currentStrokeWidth,
+          opacity: currentStrokeOpacity,
+          blendMode: currentBlendMode,
+          // Uniform width and sharp corners for the freehand rendering
+          strokeOptions: { ...finalStrokeOptions, thinning: 0, streamline: 0 },
+          renderStyle:
+            currentShapeRenderMode === "geometric" ? "stroke" : "fill",
+          shape,
+          layerId: activeLayerId,
+          completed: true,
+        };
+        return { ...path, svgPath: regenerateSvgPath(path) };
+      },
+      [
+        activeLayerId,
+        currentShapeRenderMode,
+        currentStrokeColor,
+        currentStrokeWidth,
+        currentStrokeOpacity,
+        currentBlendMode,
+        finalStrokeOptions,
+      ]
+    );
+
+    const createText = useCallback(
+      (input: NewTextElement): TextElement => ({
+        id: generateId(),
+        fontSize: currentFontSize,
+        color: currentStrokeColor,
+        opacity: currentStrokeOpacity,
+        ...(fontFamily ? { fontFamily } : {}),
+        layerId: activeLayerId,
+        ...input,
+      }),
+      [
+        activeLayerId,
+        currentFontSize,
+        currentStrokeColor,
+        currentStrokeOpacity,
+        fontFamily,
+      ]
+    );
+
+    // Text tool - tapping empty canvas adds a label, tapping existing text
+    // reports it so the app can open an editor
+    const handleTextTap = useCallback(
+      (start: Point, end: Point): void => {
+        const tolerance = TAP_TOLERANCE / (enableZoom ? scale.value : 1);
+        if (Math.hypot(end[0] - start[0], end[1] - start[1]) > tolerance) {
+          return;
+        }
+
+        const hit = findTextAt(
+          textsRef.current.filter(isEditable),
+          start,
+          tolerance
+        );
+        if (hit) {
+          onTextPress?.(hit);
+          return;
+        }
+
+        const text = createText({
+          text: textPlaceholder,
+          x: start[0],
+          y: start[1],
+        });
+        executeCommand({ type: "addText", texts: [text] }, "text");
+        if (hapticsEnabled) {
+          triggerSelection();
+        }
+        onTextCreate?.(text);
+      },
+      [
+        enableZoom,
+        scale,
+        isEditable,
+        createText,
+        textPlaceholder,
+        executeCommand,
+        hapticsEnabled,
+        triggerSelection,
+        onTextCreate,
+        onTextPress,
+      ]
+    );
+
+    // Hold-to-snap: when the finger rests for the dwell time, the stroke so far
+    // is replaced by the recognized clean shape
+    const clearRecognition = useCallback((): void => {
+      if (recognitionTimer.current) {
+        clearTimeout(recognitionTimer.current);
+        recognitionTimer.current = null;
+      }
+      dwellAnchor.current = null;
+      snappedShape.current = null;
+    }, []);
+
+    const scheduleRecognition = useCallback((): void => {
+      if (recognitionTimer.current) {
+        clearTimeout(recognitionTimer.current);
+      }
+      recognitionTimer.current = setTimeout((): void => {
+        recognitionTimer.current = null;
+        if (!isDrawingRef.current) return;
+
+        const result = recognizeShape(currentPathPoints.current, {
+          minConfidence: shapeRecognitionThreshold,
+        });
+        if (!result) return;
+
+        const path = createShapePath(result.shape);
+        snappedShape.current = { result, path };
+        setPreviewStyle(path.renderStyle ?? "fill");
+        liveStrokeActive.value = false;
+        currentPathShared.value = path.svgPath;
+
+        if (hapticsEnabled) {
+          triggerSelection();
+        }
+      }, shapeRecognitionDelay);
+    }, [
+      shapeRecognitionThreshold,
+      shapeRecognitionDelay,
+      createShapePath,
+      hapticsEnabled,
+      triggerSelection,
+    ]);
+
+    useEffect((): (() => void) => clearRecognition, [clearRecognition]);
+
+    // Don't keep scheduling frames after unmount
+    useEffect(
+      (): (() => void) => (): void => replayController.current?.pause(),
+      []
+    );
+
     // Drawing callbacks
     const handleDrawStart = useCallback(
       (point: Point): void => {
+        if (replayController.current) {
+          currentPathShared.value = "";
+          return;
+        }
+
+        const addsContent =
+          currentTool !== "select" && currentTool !== "eraser";
+        if (addsContent && !canDrawOnActiveLayer) {
+          currentPathShared.value = "";
+          triggerNotification("warning");
+          return;
+        }
+
         isDrawingRef.current = true;
         currentPathPoints.current = [point];
         lastDrawPoint.current = point;
         lastDrawTime.current = Date.now();
+        currentPathRef.current = null;
+        moveCursor(point);
+
+        if (currentTool === "select") {
+          handleSelectionStart(point);
+          return;
+        }
+
+        // Text is placed when the finger lifts
+        if (currentTool === "text") return;
+
+        if (currentTool === "eraser") {
+          eraseBasePaths.current = pathsRef.current;
+          erasedIds.current = new Set();
+          eraseOrigins.current = new Map();
+          eraseAlong(point, point);
+          return;
+        }
+
+        setPreviewStyle(
+          currentTool === "shape" && currentShapeRenderMode === "geometric"
+            ? "stroke"
+            : "fill"
+        );
+
+        currentPathPoints.current = snapStrokeStart([point]);
+        const [start] = currentPathPoints.current;
+        liveStrokeStart.value = start === point ? null : start;
+        liveStrokeActive.value = true;
+
+        if (currentTool === "pen" && enableShapeRecognition) {
+          clearRecognition();
+          dwellAnchor.current = point;
+          scheduleRecognition();
+        }
 
         if (hapticsEnabled) {
           // Strong haptic feedback when starting to draw
           triggerHaptic(0.7);
         }
 
+        onStateChange?.(getDrawingState());
         onDrawStart?.(point);
       },
-      [hapticsEnabled, triggerHaptic, onDrawStart]
+      [
+        currentTool,
+        canDrawOnActiveLayer,
+        triggerNotification,
+        snapStrokeStart,
+        currentShapeRenderMode,
+        enableShapeRecognition,
+        clearRecognition,
+        scheduleRecognition,
+        eraseAlong,
+        handleSelectionStart,
+        moveCursor,
+        hapticsEnabled,
+        triggerHaptic,
+        onStateChange,
+        getDrawingState,
+        onDrawStart,
+      ]
     );
 
     const handleDrawUpdate = useCallback(
       (point: Point): void => {
         if (!isDrawingRef.current) return;
+        moveCursor(point);
+
+        if (currentTool === "select") {
+          handleSelectionUpdate(point);
+          return;
+        }
+
+        if (currentTool === "eraser") {
+          if (lastDrawPoint.current) {
+            eraseAlong(lastDrawPoint.current, point);
+          }
+          lastDrawPoint.current = point;
+          return;
+        }
+
+        if (currentTool === "text") return;
 
         currentPathPoints.current.push(point);
 
+        if (currentTool === "pen" && enableShapeRecognition) {
+          const anchor = dwellAnchor.current;
+          const tolerance = DWELL_TOLERANCE / (enableZoom ? scale.value : 1);
+          if (
+            !anchor ||
+            Math.hypot(point[0] - anchor[0], point[1] - anchor[1]) > tolerance
+          ) {
+            // Moving again releases a snapped shape
+            if (snappedShape.current) {
+              snappedShape.current = null;
+              setPreviewStyle("fill");
+              liveStrokeActive.value = true;
+            }
+            dwellAnchor.current = point;
+            scheduleRecognition();
+          }
+        }
+
         // Throttle haptic feedback to improve performance
         if (hapticsEnabled && lastDrawPoint.current) {
           const now = Date.now();
@@ -172,66 +1103,180 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
           lastDrawPoint.current = point;
         }
 
-        // Process points and update current path
-        // Only update if we have enough points to prevent jumps
-        if (currentPathPoints.current.length > 1) {
-          const svgPath = processPoints(
-            currentPathPoints.current,
-            finalStrokeOptions
+        // Shapes are previewed from here; pen and highlighter strokes are
+        // outlined on the UI thread by useLiveStroke
+        if (currentTool === "shape") {
+          const shapePath = createShapePath(
+            createDragShape(currentPathPoints.current[0], point)
           );
-          currentPathShared.value = svgPath;
+          currentPathShared.value = shapePath.svgPath;
+          currentPathRef.current = { ...shapePath, completed: false };
+        } else if (
+          // A snapped shape stays on screen while the finger rests
+          !snappedShape.current &&
+          currentPathPoints.current.length > 1 &&
+          currentPathRef.current?.points !== currentPathPoints.current
+        ) {
+          // Shares the growing point list with getDrawingState
+          currentPathRef.current = {
+            id: currentPathRef.current?.id ?? generateId(),
+            points: currentPathPoints.current,
+            svgPath: "",
+            color: activeStroke.color,
+            width: activeStroke.width,
+            opacity: activeStroke.opacity,
+            strokeOptions: activeStroke.options,
+            ...(activeStroke.blendMode
+              ? { blendMode: activeStroke.blendMode }
+              : {}),
+            ...(currentTool === "highlighter" ? { highlighter: true } : {}),
+            layerId: activeLayerId,
+            completed: false,
+          };
+        }
+        if (currentPathRef.current) {
+          streamStroke(currentPathRef.current);
+          onStateChange?.(getDrawingState());
         }
 
         // Call onDrawUpdate callback
         onDrawUpdate?.(point);
       },
-      [hapticsEnabled, triggerDrawingHaptic, finalStrokeOptions, onDrawUpdate]
+      [
+        currentTool,
+        eraseAlong,
+        handleSelectionUpdate,
+        createDragShape,
+        createShapePath,
+        enableShapeRecognition,
+        enableZoom,
+        scale,
+        scheduleRecognition,
+        hapticsEnabled,
+        triggerDrawingHaptic,
+        activeStroke,
+        moveCursor,
+        streamStroke,
+        activeLayerId,
+        onStateChange,
+        getDrawingState,
+        onDrawUpdate,
+      ]
     );
 
     const handleDrawEnd = useCallback(
-      (points: Point[]): void => {
+      (points: Point[], timestamps: number[] = []): void => {
+        // Nothing started, e.g. the active layer is locked
+        if (!isDrawingRef.current) {
+          currentPathShared.value = "";
+          return;
+        }
+
+        if (
+          currentTool === "select" ||
+          currentTool === "eraser" ||
+          currentTool === "text"
+        ) {
+          if (currentTool === "select") {
+            handleSelectionEnd();
+          } else if (currentTool === "eraser") {
+            commitErase();
+          } else if (points.length > 0) {
+            handleTextTap(points[0], points[points.length - 1]);
+          }
+          currentPathPoints.current = [];
+          isDrawingRef.current = false;
+          lastDrawPoint.current = null;
+          return;
+        }
+
         // Allow single point (dot) by duplicating it
         if (points.length === 1) {
           // Create a small dot by adding a point very close to the first one
           const dot = points[0];
           points = [dot, [dot[0] + 0.1, dot[1] + 0.1, dot[2]]];
+          timestamps = [timestamps[0], timestamps[0]];
         }
+        const hasTimestamps = timestamps.length === points.length;
 
-        if (points.length === 0) {
+        const dragShape =
+          currentTool === "shape"
+            ? createDragShape(points[0], points[points.length - 1])
+            : null;
+        const isEmptyShape =
+          !!dragShape &&
+          Math.hypot(
+            dragShape.end[0] - dragShape.start[0],
+            dragShape.end[1] - dragShape.start[1]
+          ) < 1;
+
+        if (points.length === 0 || isEmptyShape) {
           isDrawingRef.current = false;
           currentPathShared.value = "";
           return;
         }
 
-        // Simplify path if enabled
-        const finalPoints = simplifyPaths
-          ? simplifyPath(points, simplifyTolerance)
-          : points;
+        const snapped = snappedShape.current;
+        clearRecognition();
 
-        // Process final path
-        const svgPath = processPoints(finalPoints, finalStrokeOptions);
+        const shapePath = dragShape
+          ? createShapePath(dragShape)
+          : (snapped?.path ?? null);
 
-        const newPath: PathData = {
-          id: generateId(),
-          points: finalPoints,
-          svgPath,
-          color: currentStrokeColor,
-          width: currentStrokeWidth,
-          opacity: currentStrokeOpacity,
-          completed: true,
-        };
+        let newPath: PathData;
+        if (shapePath) {
+          // Shapes replay as if traced over the time the gesture took
+          newPath = hasTimestamps
+            ? {
+                ...shapePath,
+                timestamps: spreadTimestamps(
+                  timestamps[0],
+                  timestamps[timestamps.length - 1],
+                  shapePath.points.length
+                ),
+              }
+            : shapePath;
+        } else {
+          const strokePoints = snapStrokeStart(points);
 
-        // Update state
-        setPaths((prev): PathData[] => {
-          const newPaths = [...prev, newPath];
-          historyManager.current.push(newPaths);
+          // Simplify path if enabled
+          const kept = simplifyPaths
+            ? getSimplifiedIndices(strokePoints, simplifyTolerance)
+            : strokePoints.map((_, i): number => i);
+          const finalPoints = kept.map((i): Point => strokePoints[i]);
 
-          // Clear current path after state update to avoid blink
-          requestAnimationFrame((): void => {
-            currentPathShared.value = "";
-          });
+          // Process final path
+          const svgPath = processPoints(finalPoints, activeStroke.options);
 
-          return newPaths;
+          newPath = {
+            id: generateId(),
+            points: finalPoints,
+            svgPath,
+            color: activeStroke.color,
+            width: activeStroke.width,
+            opacity: activeStroke.opacity,
+            strokeOptions: activeStroke.options,
+            ...(activeStroke.blendMode
+              ? { blendMode: activeStroke.blendMode }
+              : {}),
+            ...(currentTool === "highlighter" ? { highlighter: true } : {}),
+            layerId: activeLayerId,
+            ...(hasTimestamps
+              ? { timestamps: kept.map((i): number => timestamps[i]) }
+              : {}),
+            completed: true,
+          };
+        }
+
+        // Update state
+        executeCommand(
+          { type: "add", paths: [newPath] },
+          newPath.shape ? "shape" : "draw"
+        );
+
+        // Clear current path after state update to avoid blink
+        requestAnimationFrame((): void => {
+          currentPathShared.value = "";
         });
 
         // Clear other drawing state
@@ -244,49 +1289,59 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
           triggerHaptic(0.3);
         }
 
+        if (snapped) {
+          onShapeRecognized?.(snapped.result, newPath);
+        }
         onDrawEnd?.(newPath);
         onPathComplete?.(newPath);
       },
       [
+        currentTool,
+        commitErase,
+        handleSelectionEnd,
+        handleTextTap,
+        snapStrokeStart,
+        createDragShape,
+        createShapePath,
+        clearRecognition,
         simplifyPaths,
         simplifyTolerance,
-        finalStrokeOptions,
-        currentStrokeColor,
-        currentStrokeWidth,
-        currentStrokeOpacity,
+        activeStroke,
         hapticsEnabled,
-        triggerSelection,
+        executeCommand,
         onDrawEnd,
         onPathComplete,
+        onShapeRecognized,
       ]
     );
 
-    // Zoom gesture - always call the hook
-    const {
-      combinedGesture,
-      // pinchGesture,
-      // panGesture,
-      scale,
-      translation,
-      reset: resetZoom,
-      setScale,
-      isPinching,
-      isPanning,
-    } = useZoomGesture({
-      enabled: enableZoom,
-      minScale: zoomRange[0],
-      maxScale: zoomRange[1],
-      onScaleChange: onZoomChange,
-      onTranslateChange: onTranslateChange,
-      canvasWidth: canvasSize.width || undefined,
-      canvasHeight: canvasSize.height || undefined,
-    });
+    // Ends what the gesture streamed to collaborators and shows remote
+    // changes that arrived meanwhile
+    const finishDraw = useCallback(
+      (points: Point[], timestamps?: number[]): void => {
+        liveStrokeActive.value = false;
+        handleDrawEnd(points, timestamps);
+        currentPathRef.current = null;
+        streamStroke(null);
+        moveCursor(null);
+        flushRemote();
+        onStateChange?.(getDrawingState());
+      },
+      [
+        handleDrawEnd,
+        streamStroke,
+        moveCursor,
+        flushRemote,
+        onStateChange,
+        getDrawingState,
+      ]
+    );
 
     // Drawing gesture - pass zoom values only when zoom is enabled
-    const { gesture: drawingGesture } = useDrawingGesture({
+    const { gesture: drawingGesture, currentPath } = useDrawingGesture({
       onDrawStart: handleDrawStart,
       onDrawUpdate: handleDrawUpdate,
-      onDrawEnd: handleDrawEnd,
+      onDrawEnd: finishDraw,
       enablePressure: true,
       enableVelocity: true,
       minDistance: 0.0,
@@ -296,6 +1351,17 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
       isPanning: enableZoom ? isPanning : undefined,
     });
 
+    // Live outline of pen and highlighter strokes, drawn without waiting for
+    // the JS thread. It stays until the committed path replaces it.
+    useLiveStroke({
+      points: currentPath,
+      output: currentPathShared,
+      options: activeStroke.options,
+      enabled: currentTool === "pen" || currentTool === "highlighter",
+      active: liveStrokeActive,
+      start: liveStrokeStart,
+    });
+
     // Combine gestures - drawing and zoom/pan
     const composedGesture = useMemo((): SimultaneousGesture | PanGesture => {
       if (enableZoom) {
@@ -318,46 +1384,156 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
       return matrix;
     });
 
+    // Paper covers the visible part of the world and follows zoom and pan
+    const visibleWorldRect = useDerivedValue((): CanvasRect => {
+      const zoom = enableZoom ? scale.value : 1;
+      const offset = enableZoom ? translation.value : { x: 0, y: 0 };
+      return {
+        x: -offset.x / zoom,
+        y: -offset.y / zoom,
+        width: canvasSize.width / zoom,
+        height: canvasSize.height / zoom,
+      };
+    });
+
+    const paperPath = useDerivedValue((): string => {
+      if (!currentPaper) return "";
+      const zoom = enableZoom ? scale.value : 1;
+      const spacing = currentPaper.spacing ?? DEFAULT_PAPER_SPACING;
+      if (spacing * zoom < MIN_PAPER_SPACING) return "";
+      return getPaperSvgPath(currentPaper, visibleWorldRect.value);
+    });
+
+    const paperMarginPath = useDerivedValue((): string => {
+      const marginX = currentPaper?.marginX;
+      if (marginX === undefined) return "";
+      const { y, height } = visibleWorldRect.value;
+      return `M${marginX} ${y}L${marginX} ${y + height}`;
+    });
+
     // Imperative handle
+    // Background image as a URI for exports; Skia images are encoded as PNG
+    const getBackgroundImageUri = useCallback((): string | undefined => {
+      if (typeof currentBackgroundImage === "string") {
+        return currentBackgroundImage;
+      }
+      return backgroundSkImage
+        ? `data:image/png;base64,${backgroundSkImage.encodeToBase64()}`
+        : undefined;
+    }, [currentBackgroundImage, backgroundSkImage]);
+
     useImperativeHandle(
       ref,
       (): PerfectCanvasRef => ({
-        undo: (steps = 1): void => {
+        undo: (steps = 1): boolean => {
+          let nextContent = getContent();
+          let changed = false;
           for (let i = 0; i < steps; i++) {
-            const previousState = historyManager.current.undo();
+            const previousState = historyManager.current.undo(nextContent);
             if (previousState) {
-              setPaths(previousState);
+              nextContent = previousState;
+              changed = true;
             } else {
               break;
             }
           }
+          if (!changed) return false;
+
+          changeReason.current = { type: "undo" };
+          updateContent(nextContent);
+          emitHistoryChange();
           if (hapticsEnabled) {
             triggerSelection();
           }
+          return true;
         },
-        redo: (steps = 1): void => {
+        redo: (steps = 1): boolean => {
+          let nextContent = getContent();
+          let changed = false;
           for (let i = 0; i < steps; i++) {
-            const nextState = historyManager.current.redo();
+            const nextState = historyManager.current.redo(nextContent);
             if (nextState) {
-              setPaths(nextState);
+              nextContent = nextState;
+              changed = true;
             } else {
               break;
             }
           }
+          if (!changed) return false;
+
+          changeReason.current = { type: "redo" };
+          updateContent(nextContent);
+          emitHistoryChange();
+          if (hapticsEnabled) {
+            triggerSelection();
+          }
+          return true;
+        },
+        canUndo: (): boolean => historyManager.current.canUndo(),
+        canRedo: (): boolean => historyManager.current.canRedo(),
+        getHistoryLength: (): number => historyManager.current.getSize(),
+        getHistory: (): HistoryEntry[] => historyManager.current.getEntries(),
+        jumpTo: (nodeId: string | null): boolean => {
+          const history = historyManager.current;
+          if (nodeId === history.getCurrentId()) return false;
+
+          const nextContent = history.jumpTo(nodeId, getContent());
+          if (!nextContent) return false;
+
+          changeReason.current = { type: "jump" };
+          updateContent(nextContent);
+          emitHistoryChange();
           if (hapticsEnabled) {
             triggerSelection();
           }
+          return true;
+        },
+        exportHistory: (options?: HistoryExportOptions): SerializedHistory =>
+          historyManager.current.serialize(getContent(), options),
+        importHistory: (
+          data: SerializedHistory,
+          options: HistoryImportOptions = {}
+        ): boolean => {
+          const { restorePaths = true } = options;
+          try {
+            // Kept paths must be the content the commands apply to
+            historyManager.current.restore(
+              data,
+              restorePaths ? undefined : getContent()
+            );
+          } catch (error) {
+            console.warn("Failed to import history:", error);
+            return false;
+          }
+          if (restorePaths) {
+            updateContent({
+              paths: data.paths,
+              texts: data.texts ?? [],
+              layers: data.layers ?? createDefaultLayers(),
+            });
+          }
+          emitHistoryChange();
+          return true;
         },
         clear: (): void => {
-          setPaths([]);
-          historyManager.current.push([]);
+          executeCommand(
+            { type: "clear", paths: pathsRef.current, texts: textsRef.current },
+            "clear"
+          );
           if (hapticsEnabled) {
             triggerNotification("success");
           }
         },
         reset: (): void => {
-          setPaths([]);
+          updateContent({
+            paths: [],
+            texts: [],
+            layers: createDefaultLayers(),
+          });
+          changeActiveLayer(DEFAULT_LAYER_ID);
+          documentMetadata.current = {};
           historyManager.current.clear();
+          emitHistoryChange();
           if (enableZoom) {
             resetZoom();
           }
@@ -385,23 +1561,460 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
         toSvg: (
           width = 1000,
           height = 1000,
-          bgColor: string = currentBackgroundColor
+          bgColor: string = currentBackgroundColor,
+          options: SvgExportOptions = {}
         ): string => {
+          const { includePaper = true } = options;
           return createSvgFromPaths(paths, {
             width,
             height,
             backgroundColor: bgColor || currentBackgroundColor,
+            texts,
+            layers,
+            ...(currentPaper && includePaper ? { paper: currentPaper } : {}),
+            ...(backgroundSkImage && backgroundImageBounds
+              ? {
+                  backgroundImage: {
+                    href: getBackgroundImageUri() ?? "",
+                    rect: backgroundImageBounds,
+                    frame: backgroundFrame,
+                  },
+                }
+              : {}),
           });
         },
+        replay: (options: ReplayOptions = {}): ReplayController => {
+          replayController.current?.stop();
+          setSelection([]);
+
+          const timeline = createReplayTimeline(pathsRef.current, options);
+          // Once stopped, completed or replaced the controller does nothing,
+          // so it can't bring the replay frame back
+          const isActive = (): boolean =>
+            replayController.current === controller;
+          const finish = (): void => {
+            if (!isActive()) return;
+            replayController.current = null;
+            setReplayState(null);
+          };
+          const player = createReplayPlayer({
+            duration: timeline.duration,
+            speed: options.speed,
+            loop: options.loop,
+            onFrame: (time): void => setReplayState({ timeline, time }),
+            onProgress: options.onProgress,
+            onComplete: (): void => {
+              finish();
+              options.onComplete?.();
+            },
+          });
+          const controller: ReplayController = {
+            ...player,
+            play: (): void => {
+              if (isActive()) player.play();
+            },
+            seek: (time: number): void => {
+              if (isActive()) player.seek(time);
+            },
+            stop: (): void => {
+              player.stop();
+              finish();
+            },
+          };
+
+          replayController.current = controller;
+          setReplayState({ timeline, time: 0 });
+          player.play();
+          return controller;
+        },
+        toPdf: ((options: PdfExportOptions = {}): string | Uint8Array => {
+          const {
+            fitToContent = false,
+            includeBackground = true,
+            output = "base64",
+            ...pageOptions
+          } = options;
+          // Until the canvas has been laid out there is no frame to print
+          const hasFrame = canvasSize.width > 0 && canvasSize.height > 0;
+          const bytes = createPdfFromPaths(paths, {
+            texts,
+            layers,
+            ...(fitToContent || !hasFrame
+              ? {}
+              : {
+                  frame: {
+                    x: 0,
+                    y: 0,
+                    width: canvasSize.width,
+                    height: canvasSize.height,
+                  },
+                }),
+            ...(includeBackground
+              ? { backgroundColor: currentBackgroundColor }
+              : {}),
+            ...pageOptions,
+          });
+          return output === "bytes" ? bytes : bytesToBase64(bytes);
+        }) as PerfectCanvasRef["toPdf"],
         getPaths: (): PathData[] => paths,
-        setPaths: (newPaths: PathData[]): void => {
-          setPaths(newPaths);
-          historyManager.current.push(newPaths);
-        },
-        /* importSvg: (_svg: string): void => {
-          // TODO: Implement SVG import
-          console.warn("SVG import not yet implemented");
-        }, */
+        queryPaths: (rect: CanvasRect): PathData[] => {
+          spatialIndex.current.update(paths);
+          return spatialIndex.current.query(rect);
+        },
+        hitTest: (x: number, y: number, tolerance = 0): PathData | null => {
+          spatialIndex.current.update(paths);
+          // Topmost as drawn: later layers first, then ink above highlighters
+          const layerIndex = new Map(
+            layers.map((layer, i): [string, number] => [layer.id, i])
+          );
+          const visible = new Set(
+            layers
+              .filter((layer): boolean => layer.visible)
+              .map((layer): string => layer.id)
+          );
+          let top: PathData | null = null;
+          let topRank = -1;
+          for (const path of spatialIndex.current.hitTest(x, y, tolerance)) {
+            const layerId = resolveLayerId(path, layers);
+            if (layerId === undefined || !visible.has(layerId)) continue;
+            const rank =
+              (layerIndex.get(layerId) ?? 0) * 2 + (path.highlighter ? 0 : 1);
+            // Hits come in drawing order, so ties go to the later path
+            if (rank >= topRank) {
+              top = path;
+              topRank = rank;
+            }
+          }
+          return top;
+        },
+        importSvg: (svg: string, options: SvgImportOptions = {}): boolean => {
+          const { replace = false } = options;
+          let result: SvgImportResult;
+          try {
+            result = parseSvgDocument(svg);
+          } catch (error) {
+            console.warn("Failed to import SVG:", error);
+            return false;
+          }
+
+          // Layers only come along when replacing; otherwise everything lands
+          // on the active layer
+          const keepLayers = replace && result.layers.length > 0;
+          const assignLayer = <T extends { layerId?: string }>(item: T): T =>
+            keepLayers && item.layerId
+              ? item
+              : { ...item, layerId: activeLayerId };
+          const commands: HistoryCommand[] = [];
+          if (replace) {
+            commands.push({
+              type: "clear",
+              paths: pathsRef.current,
+              texts: textsRef.current,
+            });
+          }
+          if (keepLayers) {
+            commands.push({
+              type: "setLayers",
+              before: layersRef.current,
+              after: result.layers,
+            });
+          }
+          if (result.paths.length > 0) {
+            commands.push({
+              type: "add",
+              paths: result.paths.map(assignLayer),
+            });
+          }
+          if (result.texts.length > 0) {
+            commands.push({
+              type: "addText",
+              texts: result.texts.map(assignLayer),
+            });
+          }
+          if (commands.length > 0) {
+            executeCommand({ type: "batch", commands }, "importSvg");
+          }
+
+          if (replace) {
+            if (result.backgroundColor) {
+              setCurrentBackgroundColor(result.backgroundColor);
+            }
+            setCurrentBackgroundImage(result.backgroundImage ?? null);
+            setCurrentPaper(result.paper ?? null);
+          }
+          return true;
+        },
+        setPaths: (
+          newPaths: PathData[],
+          options: SetPathsOptions = {}
+        ): boolean => {
+          const errors = validatePaths(newPaths);
+          if (errors.length > 0) {
+            console.warn("Invalid paths:", errors);
+            return false;
+          }
+          const { recordHistory = true } = options;
+          if (!recordHistory) {
+            updatePaths(newPaths);
+            return true;
+          }
+          executeCommand(
+            { type: "setPaths", before: pathsRef.current, after: newPaths },
+            "setPaths"
+          );
+          return true;
+        },
+        exportDocument: (
+          options: DocumentExportOptions = {}
+        ): CanvasDocument => {
+          const now = new Date().toISOString();
+          const image = getBackgroundImageUri();
+          return createDocument({
+            canvas: { width: canvasSize.width, height: canvasSize.height },
+            background: {
+              color: currentBackgroundColor,
+              ...(image ? { image, imageFit: currentBackgroundImageFit } : {}),
+              ...(currentPaper ? { paper: currentPaper } : {}),
+            },
+            viewport: enableZoom
+              ? {
+                  scale: scale.value,
+                  translateX: translation.value.x,
+                  translateY: translation.value.y,
+                }
+              : { scale: 1, translateX: 0, translateY: 0 },
+            stroke: {
+              color: currentStrokeColor,
+              width: currentStrokeWidth,
+              opacity: currentStrokeOpacity,
+              options: finalStrokeOptions,
+            },
+            paths,
+            texts,
+            layers,
+            metadata: {
+              ...documentMetadata.current,
+              createdAt: documentMetadata.current.createdAt ?? now,
+              updatedAt: now,
+              ...options.metadata,
+            },
+          });
+        },
+        importDocument: (
+          input: CanvasDocument | string,
+          options: DocumentImportOptions = {}
+        ): boolean => {
+          let document: CanvasDocument;
+          try {
+            document = parseDocument(input);
+          } catch (error) {
+            console.warn("Failed to import document:", error);
+            return false;
+          }
+
+          const { recordHistory = false } = options;
+          if (recordHistory) {
+            executeCommand(
+              {
+                type: "batch",
+                commands: [
+                  {
+                    type: "clear",
+                    paths: pathsRef.current,
+                    texts: textsRef.current,
+                  },
+                  {
+                    type: "setLayers",
+                    before: layersRef.current,
+                    after: document.layers,
+                  },
+                  { type: "add", paths: document.paths },
+                  { type: "addText", texts: document.texts },
+                ],
+              },
+              "importDocument"
+            );
+          } else {
+            updateContent({
+              paths: document.paths,
+              texts: document.texts,
+              layers: document.layers,
+            });
+            historyManager.current.clear();
+            emitHistoryChange();
+          }
+
+          documentMetadata.current = document.metadata;
+          const { background, viewport, stroke } = document;
+          setCurrentBackgroundColor(background.color);
+          setCurrentBackgroundImage(background.image ?? null);
+          if (background.imageFit) {
+            setCurrentBackgroundImageFit(background.imageFit);
+          }
+          setCurrentPaper(background.paper ?? null);
+          setCurrentStrokeColor(stroke.color);
+          strokeColorShared.value = stroke.color;
+          setCurrentStrokeWidth(stroke.width);
+          strokeWidthShared.value = stroke.width;
+          setCurrentStrokeOpacity(stroke.opacity);
+          if (enableZoom) {
+            scale.value = viewport.scale;
+            translation.value = {
+              x: viewport.translateX,
+              y: viewport.translateY,
+            };
+          }
+          return true;
+        },
+        toBinary: (options?: BinaryEncodeOptions): Uint8Array =>
+          encodePaths(paths, options),
+        fromBinary: (
+          data: Uint8Array,
+          options: SetPathsOptions = {}
+        ): boolean => {
+          let decoded: PathData[];
+          try {
+            decoded = decodePaths(data);
+          } catch (error) {
+            console.warn("Failed to decode binary paths:", error);
+            return false;
+          }
+          // Decoding checks the format, not that the values make sense
+          const errors = validatePaths(decoded);
+          if (errors.length > 0) {
+            console.warn("Invalid binary paths:", errors);
+            return false;
+          }
+          const { recordHistory = true } = options;
+          if (!recordHistory) {
+            updatePaths(decoded);
+            return true;
+          }
+          executeCommand(
+            { type: "setPaths", before: pathsRef.current, after: decoded },
+            "fromBinary"
+          );
+          return true;
+        },
+        getTexts: (): TextElement[] => texts,
+        setTexts: (
+          newTexts: TextElement[],
+          options: SetPathsOptions = {}
+        ): void => {
+          const { recordHistory = true } = options;
+          if (!recordHistory) {
+            updateTexts(newTexts);
+            return;
+          }
+          executeCommand(
+            { type: "setTexts", before: textsRef.current, after: newTexts },
+            "setTexts"
+          );
+        },
+        addText: (input: NewTextElement): TextElement => {
+          const text = createText(input);
+          executeCommand({ type: "addText", texts: [text] }, "text");
+          return text;
+        },
+        updateText: (
+          id: string,
+          changes: Partial<Omit<TextElement, "id">>
+        ): boolean => {
+          const before = textsRef.current.find(
+            (text): boolean => text.id === id
+          );
+          if (!before) {
+            console.warn(`Text ${id} not found`);
+            return false;
+          }
+          executeCommand(
+            {
+              type: "modifyText",
+              before: [before],
+              after: [{ ...before, ...changes, id }],
+            },
+            "editText"
+          );
+          return true;
+        },
+        removeText: (id: string): boolean => {
+          const command = createRemoveTextCommand(textsRef.current, [id]);
+          if (!command) {
+            console.warn(`Text ${id} not found`);
+            return false;
+          }
+          executeCommand(command, "removeText");
+          return true;
+        },
+        getLayers: (): Layer[] => layers,
+        getPathsByLayer: (): LayerContent[] =>
+          getContentByLayer({ paths, texts, layers }),
+        addLayer: (name?: string): Layer => {
+          const layer = createLayer(
+            generateId(),
+            name ?? `Layer ${layersRef.current.length + 1}`
+          );
+          executeCommand(
+            {
+              type: "setLayers",
+              before: layersRef.current,
+              after: [...layersRef.current, layer],
+            },
+            "addLayer"
+          );
+          changeActiveLayer(layer.id);
+          return layer;
+        },
+        removeLayer: (id: string): boolean => {
+          const command = createRemoveLayerCommand(getContent(), id);
+          if (!command) {
+            console.warn(`Layer ${id} not found or is the only layer`);
+            return false;
+          }
+          executeCommand(command, "removeLayer");
+          return true;
+        },
+        updateLayer: (
+          id: string,
+          changes: Partial<Omit<Layer, "id">>
+        ): boolean => {
+          const before = layersRef.current;
+          if (!before.some((layer): boolean => layer.id === id)) {
+            console.warn(`Layer ${id} not found`);
+            return false;
+          }
+          executeCommand(
+            {
+              type: "setLayers",
+              before,
+              after: before.map(
+                (layer): Layer =>
+                  layer.id === id ? { ...layer, ...changes, id } : layer
+              ),
+            },
+            "updateLayer"
+          );
+          return true;
+        },
+        moveLayer: (id: string, index: number): boolean => {
+          const before = layersRef.current;
+          const after = moveLayer(before, id, index);
+          if (after === before) {
+            console.warn(`Layer ${id} not found`);
+            return false;
+          }
+          executeCommand({ type: "setLayers", before, after }, "moveLayer");
+          return true;
+        },
+        getActiveLayer: (): string => activeLayerId,
+        setActiveLayer: (id: string): boolean => {
+          if (!layersRef.current.some((layer): boolean => layer.id === id)) {
+            console.warn(`Layer ${id} not found`);
+            return false;
+          }
+          changeActiveLayer(id);
+          return true;
+        },
         setStrokeColor: (color: string): void => {
           setCurrentStrokeColor(color);
           strokeColorShared.value = color;
@@ -413,55 +2026,322 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
         setStrokeOpacity: (opacity: number): void => {
           setCurrentStrokeOpacity(opacity);
         },
+        setBlendMode: (mode: StrokeBlendMode): void => {
+          setCurrentBlendMode(mode);
+        },
+        setHighlighterColor: (color: string): void => {
+          setCurrentHighlighterColor(color);
+        },
+        setHighlighterWidth: (width: number): void => {
+          setCurrentHighlighterWidth(width);
+        },
         setBackgroundColor: (color: string): void => {
           setCurrentBackgroundColor(color);
         },
+        setBackgroundImage: (image: BackgroundImageSource | null): void => {
+          setCurrentBackgroundImage(image);
+        },
+        setBackgroundImageFit: (fit: BackgroundImageFit): void => {
+          setCurrentBackgroundImageFit(fit);
+        },
+        setPaper: (nextPaper: PaperOptions | null): void => {
+          setCurrentPaper(nextPaper);
+        },
+        setSnapMode: (mode: SnapMode): void => {
+          setCurrentSnapMode(mode);
+        },
         setEnableHaptics: (enabled: boolean): void => {
           setHapticsEnabled(enabled);
         },
         setHapticStyle: (style: HapticStyle): void => {
           setCurrentHapticStyle(style);
         },
-        getDrawingState: (): DrawingState => ({
-          paths,
-          currentPath: null,
-          isDrawing: isDrawingRef.current,
-          strokeColor: currentStrokeColor,
-          strokeWidth: currentStrokeWidth,
-          strokeOpacity: currentStrokeOpacity,
-        }),
+        setTool: (nextTool: DrawingTool): void => {
+          if (nextTool !== "select" && selectedIds.length > 0) {
+            setSelection([]);
+          }
+          setCurrentTool(nextTool);
+        },
+        getTool: (): DrawingTool => currentTool,
+        setEraserSize: (size: number): void => {
+          setCurrentEraserSize(size);
+        },
+        setEraserMode: (mode: EraserMode): void => {
+          setCurrentEraserMode(mode);
+        },
+        getSelection: (): string[] => selectedIds,
+        setSelection: (ids: string[]): void => {
+          const existing = new Set(
+            pathsRef.current.filter(isEditable).map((path): string => path.id)
+          );
+          setSelection(ids.filter((id): boolean => existing.has(id)));
+        },
+        setSelectionMode: (mode: SelectionMode): void => {
+          setCurrentSelectionMode(mode);
+        },
+        setShapeType: (type: ShapeType): void => {
+          setCurrentShapeType(type);
+        },
+        setShapeRenderMode: (mode: ShapeRenderMode): void => {
+          setCurrentShapeRenderMode(mode);
+        },
+        setFontSize: (size: number): void => {
+          setCurrentFontSize(size);
+        },
+        getDrawingState,
         isDrawing: (): boolean => isDrawingRef.current,
       }),
       [
         paths,
+        texts,
+        layers,
+        activeLayerId,
+        changeActiveLayer,
         currentStrokeColor,
         currentStrokeWidth,
         currentStrokeOpacity,
         currentBackgroundColor,
+        currentBackgroundImageFit,
+        getBackgroundImageUri,
+        backgroundSkImage,
+        backgroundImageBounds,
+        backgroundFrame,
+        currentPaper,
+        canvasSize,
+        finalStrokeOptions,
         hapticsEnabled,
         currentHapticStyle,
+        currentTool,
+        selectedIds,
+        setSelection,
+        isEditable,
         enableZoom,
         triggerSelection,
         triggerNotification,
         resetZoom,
+        updatePaths,
+        updateTexts,
+        getContent,
+        updateContent,
+        createText,
+        executeCommand,
+        emitHistoryChange,
+        getDrawingState,
       ]
     );
 
-    // Render paths with transformation
-    const renderedPaths = useMemo((): React.ReactNode[] => {
-      // We need to use a Group with matrix transformation
-      return paths.map(
-        (path): React.ReactNode => (
-          <Path
-            key={path.id}
-            path={path.svgPath}
-            color={path.color}
-            style="fill"
-            opacity={path.opacity || 1}
-          />
+    // Only paths near the view are rendered when zoom is enabled. Selected
+    // paths are kept so they can be dragged into view.
+    const culledPaths = useMemo((): PathData[] => {
+      if (!enableZoom || !viewportRect) return paths;
+      spatialIndex.current.update(paths);
+      const inView = spatialIndex.current.query(viewportRect);
+      if (selectedIds.length === 0) return inView;
+      const shown = new Set(inView);
+      const selected = new Set(selectedIds);
+      return paths.filter(
+        (path): boolean => shown.has(path) || selected.has(path.id)
+      );
+    }, [paths, enableZoom, viewportRect, selectedIds]);
+
+    const replayFrame = useMemo(
+      (): PathData[] | null =>
+        replayState
+          ? getReplayFrame(replayState.timeline, replayState.time)
+          : null,
+      [replayState]
+    );
+
+    // Text has no timing, so it appears once the strokes are done
+    const visibleLayers = useMemo((): LayerContent[] => {
+      const content = replayState
+        ? {
+            paths: replayFrame ?? [],
+            texts:
+              replayState.time >= replayState.timeline.duration ? texts : [],
+            layers,
+          }
+        : { paths: culledPaths, texts, layers };
+      return getContentByLayer(content).filter(
+        ({ layer }): boolean => layer.visible
+      );
+    }, [culledPaths, texts, layers, replayState, replayFrame]);
+
+    // Selected paths follow the live transform and a replayed stroke grows
+    // every frame, so they stay out of the cached pictures
+    const livePathIds = useMemo((): string[] => {
+      if (!replayState || !replayFrame) return selectedIds;
+      const { strokes } = replayState.timeline;
+      const last = replayFrame[replayFrame.length - 1];
+      return last && last !== strokes[replayFrame.length - 1]?.path
+        ? [...selectedIds, last.id]
+        : selectedIds;
+    }, [replayState, replayFrame, selectedIds]);
+
+    const { segments: pathSegments } = usePathPictures({
+      layers: visibleLayers,
+      liveIds: livePathIds,
+    });
+
+    // One group per visible layer, bottom to top. Committed strokes are
+    // drawn from cached pictures; text renders above the layer's strokes.
+    const renderedLayers = useMemo((): React.ReactNode[] => {
+      const renderSegment = (segment: PathSegment): React.ReactNode => {
+        if (segment.type === "picture") {
+          return <Picture key={segment.key} picture={segment.picture} />;
+        }
+        const { path } = segment;
+        return (
+          <Group key={path.id} matrix={selectionMatrix}>
+            <Path
+              path={path.svgPath}
+              color={path.color}
+              style={path.renderStyle ?? "fill"}
+              strokeWidth={path.width}
+              strokeCap="round"
+              strokeJoin="round"
+              opacity={path.opacity || 1}
+              blendMode={path.blendMode}
+            />
+          </Group>
+        );
+      };
+
+      // Each label is rotated around its anchor
+      const renderText = (text: TextElement): React.ReactNode => {
+        const font = matchFont({
+          fontFamily: text.fontFamily ?? DEFAULT_FONT_FAMILY,
+          fontSize: text.fontSize,
+        });
+        return (
+          <Group
+            key={text.id}
+            transform={[{ rotate: text.rotation ?? 0 }]}
+            origin={{ x: text.x, y: text.y }}
+            opacity={text.opacity ?? 1}
+          >
+            {getTextLines(text).map(
+              (line, i): React.ReactNode => (
+                <Text
+                  key={i}
+                  x={text.x}
+                  y={text.y + i * text.fontSize * TEXT_LINE_HEIGHT}
+                  text={line}
+                  font={font}
+                  color={text.color}
+                />
+              )
+            )}
+          </Group>
+        );
+      };
+
+      return visibleLayers.map(
+        ({ layer, texts: layerTexts }): React.ReactNode => (
+          // Translucent layers are composited as a whole so overlapping
+          // strokes don't show through each other. Opaque layers skip the
+          // offscreen pass so highlighters still multiply with layers below.
+          <Group
+            key={layer.id}
+            layer={
+              layer.opacity < 1 ? <Paint opacity={layer.opacity} /> : undefined
+            }
+          >
+            {(pathSegments[layer.id] ?? []).map(renderSegment)}
+            {layerTexts.map(renderText)}
+          </Group>
         )
       );
-    }, [paths]);
+    }, [visibleLayers, pathSegments, selectionMatrix]);
+
+    const selectionOverlay = useMemo((): React.ReactNode => {
+      if (currentTool !== "select" || !selectedBounds) return null;
+
+      const { corners, rotate } = getSelectionHandles(selectedBounds);
+      return (
+        <Group matrix={selectionMatrix}>
+          <Rect
+            x={selectedBounds.minX}
+            y={selectedBounds.minY}
+            width={selectedBounds.width}
+            height={selectedBounds.height}
+            color={SELECTION_COLOR}
+            style="stroke"
+            strokeWidth={1}
+          >
+            <DashPathEffect intervals={[6, 4]} />
+          </Rect>
+          {corners.map(
+            ([cx, cy], i): React.ReactNode => (
+              <Circle key={i} cx={cx} cy={cy} r={6} color={SELECTION_COLOR} />
+            )
+          )}
+          <Circle
+            cx={rotate[0]}
+            cy={rotate[1]}
+            r={6}
+            color={SELECTION_COLOR}
+            style="stroke"
+            strokeWidth={2}
+          />
+        </Group>
+      );
+    }, [currentTool, selectedBounds, selectionMatrix]);
+
+    // Other users' strokes in progress and where they are touching
+    const collaborationOverlay = useMemo((): React.ReactNode => {
+      if (remoteStrokes.length === 0 && remoteCursors.length === 0) {
+        return null;
+      }
+      const font = showRemoteCursors
+        ? matchFont({
+            fontFamily: DEFAULT_FONT_FAMILY,
+            fontSize: CURSOR_LABEL_SIZE,
+          })
+        : null;
+
+      return (
+        <Group>
+          {remoteStrokes.map(
+            (path): React.ReactNode => (
+              <Path
+                key={path.id}
+                path={path.svgPath}
+                color={path.color}
+                style={path.renderStyle ?? "fill"}
+                strokeWidth={path.width}
+                strokeCap="round"
+                strokeJoin="round"
+                opacity={path.opacity || 1}
+                blendMode={path.blendMode}
+              />
+            )
+          )}
+          {font &&
+            remoteCursors.map(
+              (cursor): React.ReactNode => (
+                <Group key={cursor.clientId}>
+                  <Circle
+                    cx={cursor.x}
+                    cy={cursor.y}
+                    r={CURSOR_RADIUS}
+                    color={cursor.color ?? DEFAULT_CURSOR_COLOR}
+                  />
+                  {cursor.name && (
+                    <Text
+                      x={cursor.x + CURSOR_RADIUS * 2}
+                      y={cursor.y - CURSOR_RADIUS}
+                      text={cursor.name}
+                      font={font}
+                      color={cursor.color ?? DEFAULT_CURSOR_COLOR}
+                    />
+                  )}
+                </Group>
+              )
+            )}
+        </Group>
+      );
+    }, [remoteStrokes, remoteCursors, showRemoteCursors]);
 
     return (
       <GestureHandlerRootView style={[styles.container, style]}>
@@ -483,16 +2363,75 @@ const PerfectCanvasComponent = forwardRef<PerfectCanvasRef, PerfectCanvasProps>(
             >
               {/* Apply transformation to all content */}
               <Group matrix={transformMatrix}>
-                {/* Rendered paths */}
-                {renderedPaths}
+                {/* Background image, clipped to its frame */}
+                {backgroundSkImage && backgroundImageBounds && (
+                  <Group clip={backgroundFrame}>
+                    <Image
+                      image={backgroundSkImage}
+                      x={backgroundImageBounds.x}
+                      y={backgroundImageBounds.y}
+                      width={backgroundImageBounds.width}
+                      height={backgroundImageBounds.height}
+                      fit="fill"
+                    />
+                  </Group>
+                )}
+
+                {/* Paper lines, dots and margin */}
+                {currentPaper && (
+                  <Group>
+                    <Path
+                      path={paperPath}
+                      color={currentPaper.color ?? DEFAULT_PAPER_COLOR}
+                      style="stroke"
+                      strokeWidth={
+                        currentPaper.type === "dots"
+                          ? (currentPaper.dotSize ?? 2)
+                          : (currentPaper.lineWidth ?? 1)
+                      }
+                      strokeCap="round"
+                    />
+                    <Path
+                      path={paperMarginPath}
+                      color={currentPaper.marginColor ?? DEFAULT_MARGIN_COLOR}
+                      style="stroke"
+                      strokeWidth={currentPaper.lineWidth ?? 1}
+                    />
+                  </Group>
+                )}
+
+                {/* Layers with their paths and text */}
+                {renderedLayers}
+
+                {/* Collaborators' live strokes and cursors */}
+                {collaborationOverlay}
 
                 {/* Current drawing path */}
                 <Path
                   path={currentPathShared}
-                  color={strokeColorShared}
-                  style="fill"
-                  opacity={currentStrokeOpacity}
+                  color={
+                    currentTool === "highlighter"
+                      ? activeStroke.color
+                      : strokeColorShared
+                  }
+                  style={previewStyle}
+                  strokeWidth={currentStrokeWidth}
+                  strokeCap="round"
+                  strokeJoin="round"
+                  opacity={activeStroke.opacity}
+                  blendMode={activeStroke.blendMode}
                 />
+
+                {/* Selection box, handles and lasso */}
+                {selectionOverlay}
+                <Path
+                  path={selectionOutline}
+                  color={SELECTION_COLOR}
+                  style="stroke"
+                  strokeWidth={1}
+                >
+                  <DashPathEffect intervals={[6, 4]} />
+                </Path>
               </Group>
 
               {/* Children (overlays, etc.) */}
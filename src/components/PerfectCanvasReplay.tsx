@@ -0,0 +1,218 @@
+import React, {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  useMemo,
+  memo,
+} from "react";
+import {
+  Canvas,
+  Path,
+  Group,
+  Paint,
+  Text,
+  matchFont,
+} from "@shopify/react-native-skia";
+import { StyleSheet, Platform } from "react-native";
+import type {
+  PerfectCanvasReplayProps,
+  PathData,
+  ReplayController,
+  TextElement,
+} from "../types";
+import {
+  createDefaultLayers,
+  createReplayPlayer,
+  createReplayTimeline,
+  getContentByLayer,
+  getReplayFrame,
+  getTextLines,
+  sortPathsForRendering,
+  TEXT_LINE_HEIGHT,
+  ReplayTimeline,
+} from "../utils";
+
+const DEFAULT_FONT_FAMILY =
+  Platform.select({ ios: "Helvetica", default: "sans-serif" }) ?? "sans-serif";
+
+// Changes when the strokes would replay differently. Parents often pass a
+// new but equal paths array on each render, which mustn't restart playback.
+function getPlaybackKey(paths: PathData[]): string {
+  return paths
+    .map(({ id, points, timestamps }): string =>
+      timestamps && timestamps.length > 0
+        ? `${id}:${points.length}:${timestamps[0]}:${timestamps[timestamps.length - 1]}`
+        : `${id}:${points.length}`
+    )
+    .join("|");
+}
+
+const PerfectCanvasReplayComponent = forwardRef<
+  ReplayController,
+  PerfectCanvasReplayProps
+>((props, ref): React.ReactElement => {
+  const {
+    document,
+    style,
+    speed = 1,
+    maxPause,
+    strokeDuration,
+    loop = false,
+    autoPlay = true,
+  } = props;
+  const paths = props.paths ?? document?.paths;
+  const texts = props.texts ?? document?.texts;
+  const layers = props.layers ?? document?.layers;
+  const backgroundColor =
+    props.backgroundColor ?? document?.background.color ?? "white";
+
+  // Latest callbacks without restarting playback when they change
+  const callbacks = useRef(props);
+  callbacks.current = props;
+
+  const timeline = useMemo(
+    (): ReplayTimeline =>
+      createReplayTimeline(paths ?? [], { maxPause, strokeDuration }),
+    [paths, maxPause, strokeDuration]
+  );
+  const playbackKey = useMemo(
+    (): string => getPlaybackKey(paths ?? []),
+    [paths]
+  );
+  const [time, setTime] = useState(0);
+  const player = useRef<ReplayController | null>(null);
+
+  // A new player when the strokes change how they replay; speed changes and
+  // equal paths passed again don't restart playback
+  useEffect((): (() => void) => {
+    const controller = createReplayPlayer({
+      duration: timeline.duration,
+      speed,
+      loop,
+      onFrame: setTime,
+      onProgress: (progress): void => callbacks.current.onProgress?.(progress),
+      onComplete: (): void => callbacks.current.onComplete?.(),
+    });
+    player.current = controller;
+    setTime(0);
+    if (autoPlay) controller.play();
+    return (): void => controller.pause();
+  }, [playbackKey, timeline.duration, loop, autoPlay]);
+
+  useEffect((): void => {
+    player.current?.setSpeed(speed);
+  }, [speed]);
+
+  useImperativeHandle(
+    ref,
+    (): ReplayController => ({
+      play: (): void => player.current?.play(),
+      pause: (): void => player.current?.pause(),
+      seek: (target: number): void => player.current?.seek(target),
+      stop: (): void => player.current?.stop(),
+      setSpeed: (nextSpeed: number): void =>
+        player.current?.setSpeed(nextSpeed),
+      isPlaying: (): boolean => player.current?.isPlaying() ?? false,
+      getTime: (): number => player.current?.getTime() ?? 0,
+      getDuration: (): number => timeline.duration,
+    }),
+    [timeline]
+  );
+
+  const renderedLayers = useMemo((): React.ReactNode[] => {
+    const renderPath = (path: PathData): React.ReactNode => (
+      <Path
+        key={path.id}
+        path={path.svgPath}
+        color={path.color}
+        style={path.renderStyle ?? "fill"}
+        strokeWidth={path.width}
+        strokeCap="round"
+        strokeJoin="round"
+        opacity={path.opacity || 1}
+        blendMode={path.blendMode}
+      />
+    );
+
+    const renderText = (text: TextElement): React.ReactNode => {
+      const font = matchFont({
+        fontFamily: text.fontFamily ?? DEFAULT_FONT_FAMILY,
+        fontSize: text.fontSize,
+      });
+      return (
+        <Group
+          key={text.id}
+          transform={[{ rotate: text.rotation ?? 0 }]}
+          origin={{ x: text.x, y: text.y }}
+          opacity={text.opacity ?? 1}
+        >
+          {getTextLines(text).map(
+            (line, i): React.ReactNode => (
+              <Text
+                key={i}
+                x={text.x}
+                y={text.y + i * text.fontSize * TEXT_LINE_HEIGHT}
+                text={line}
+                font={font}
+                color={text.color}
+              />
+            )
+          )}
+        </Group>
+      );
+    };
+
+    // Text has no timing, so it appears once the strokes are done
+    return getContentByLayer({
+      paths: getReplayFrame(timeline, time),
+      texts: time >= timeline.duration ? (texts ?? []) : [],
+      layers: layers ?? createDefaultLayers(),
+    })
+      .filter(({ layer }): boolean => layer.visible)
+      .map(
+        ({ layer, paths: layerPaths, texts: layerTexts }): React.ReactNode => (
+          <Group
+            key={layer.id}
+            layer={
+              layer.opacity < 1 ? <Paint opacity={layer.opacity} /> : undefined
+            }
+          >
+            {sortPathsForRendering(layerPaths).map(renderPath)}
+            {layerTexts.map(renderText)}
+          </Group>
+        )
+      );
+  }, [timeline, time, texts, layers]);
+
+  // Documents replay in the viewport they were saved with
+  const viewport = document?.viewport;
+
+  return (
+    <Canvas style={[styles.canvas, style, { backgroundColor }]}>
+      <Group
+        transform={
+          viewport
+            ? [
+                { translateX: viewport.translateX },
+                { translateY: viewport.translateY },
+                { scale: viewport.scale },
+              ]
+            : []
+        }
+      >
+        {renderedLayers}
+      </Group>
+    </Canvas>
+  );
+});
+
+const styles = StyleSheet.create({
+  canvas: {
+    flex: 1,
+  },
+});
+
+export const PerfectCanvasReplay = memo(PerfectCanvasReplayComponent);
+export default PerfectCanvasReplay;
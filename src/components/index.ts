@@ -1,2 +1,7 @@
 export { PerfectCanvas } from "./PerfectCanvas";
-export type { PerfectCanvasProps, PerfectCanvasRef } from "../types";
+export { PerfectCanvasReplay } from "./PerfectCanvasReplay";
+export type {
+  PerfectCanvasProps,
+  PerfectCanvasRef,
+  PerfectCanvasReplayProps,
+} from "../types";
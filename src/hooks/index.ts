@@ -1,3 +1,9 @@
 export * from "./useHaptics";
 export * from "./useDrawingGesture";
 export * from "./useZoomGesture";
+export * from "./useSelection";
+export * from "./useBackgroundImage";
+export * from "./useCollaboration";
+export * from "./usePathPictures";
+export * from "./useViewportRect";
+export * from "./useLiveStroke";
@@ -0,0 +1,32 @@
+import { useMemo } from "react";
+import { Skia, SkImage, useImage } from "@shopify/react-native-skia";
+import type { BackgroundImageSource } from "../types";
+import { parseDataUri } from "../utils";
+
+// Resolves a background image source to a Skia image. Data URIs are decoded
+// synchronously; other URIs load asynchronously and resolve to null until
+// they are ready.
+export function useBackgroundImage(
+  source: BackgroundImageSource | null | undefined
+): SkImage | null {
+  const dataUri = typeof source === "string" ? parseDataUri(source) : null;
+
+  const decoded = useMemo((): SkImage | null => {
+    if (!dataUri) return null;
+    return Skia.Image.MakeImageFromEncoded(
+      Skia.Data.fromBase64(dataUri.base64)
+    );
+  }, [dataUri?.base64]);
+
+  // Always call the hook; a null source loads nothing
+  const loaded = useImage(
+    typeof source === "string" && !dataUri ? source : null,
+    (error): void => {
+      console.warn("Failed to load background image:", error);
+    }
+  );
+
+  if (!source) return null;
+  if (typeof source !== "string") return source;
+  return dataUri ? decoded : loaded;
+}
@@ -0,0 +1,253 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  CollaborationAdapter,
+  CollaborationMessage,
+  CollaborationUser,
+  PathData,
+  Point,
+  RemoteCursor,
+} from "../types";
+import { generateId, OperationLog, regenerateSvgPath } from "../utils";
+
+// Live strokes and cursors are sent at most this often (ms)
+const STREAM_INTERVAL = 50;
+
+// Copy of a record without one key, or the record itself when it's absent
+function omitKey<T>(items: Record<string, T>, key: string): Record<string, T> {
+  if (!(key in items)) return items;
+  const next = { ...items };
+  delete next[key];
+  return next;
+}
+
+interface CollaborationConfig {
+  adapter?: CollaborationAdapter;
+  user?: CollaborationUser;
+  pathsRef: React.RefObject<PathData[]>;
+  // Remote changes wait while this returns true, e.g. during a gesture
+  // that works from a snapshot of the paths
+  isBusy: () => boolean;
+  // Shows merged paths without recording history
+  onRemotePaths: (paths: PathData[]) => void;
+}
+
+interface CollaborationResult {
+  remoteStrokes: PathData[];
+  remoteCursors: RemoteCursor[];
+  // Sends a local change to the paths. Returns the new paths in the order
+  // every client stacks them.
+  commitPaths: (before: PathData[], after: PathData[]) => PathData[];
+  // Applies remote changes that waited for isBusy
+  flushRemote: () => void;
+  // Streams the stroke being drawn, null once it ends
+  streamStroke: (
+    stroke: Omit<PathData, "id" | "svgPath" | "completed"> | null
+  ) => void;
+  moveCursor: (point: Point | null) => void;
+}
+
+export function useCollaboration(
+  config: CollaborationConfig
+): CollaborationResult {
+  const { adapter, user, pathsRef, isBusy, onRemotePaths } = config;
+
+  const clientId = useMemo((): string => user?.id ?? generateId(), [user?.id]);
+  const log = useMemo(
+    (): OperationLog => new OperationLog(clientId),
+    [clientId]
+  );
+  const [remoteStrokes, setRemoteStrokes] = useState<Record<string, PathData>>(
+    {}
+  );
+  const [remoteCursors, setRemoteCursors] = useState<
+    Record<string, RemoteCursor>
+  >({});
+
+  // Latest values for the message listener and the stable callbacks
+  const latest = useRef({ adapter, user, isBusy, onRemotePaths });
+  latest.current = { adapter, user, isBusy, onRemotePaths };
+  const hasPending = useRef(false);
+  const lastSent = useRef({ stroke: 0, cursor: 0 });
+  const isStreaming = useRef(false);
+
+  const showRemotePaths = useCallback((): void => {
+    if (latest.current.isBusy()) {
+      hasPending.current = true;
+      return;
+    }
+    hasPending.current = false;
+    latest.current.onRemotePaths(log.getPaths());
+  }, [log]);
+
+  const flushRemote = useCallback((): void => {
+    if (hasPending.current) showRemotePaths();
+  }, [showRemotePaths]);
+
+  const commitPaths = useCallback(
+    (before: PathData[], after: PathData[]): PathData[] => {
+      const currentAdapter = latest.current.adapter;
+      if (!currentAdapter || before === after) return after;
+      const ops = log.commit(before, after);
+      if (ops.length > 0) currentAdapter.send({ type: "ops", ops });
+
+      // The log stacks paths by when they were first created, e.g. erase
+      // fragments go on top. Remote changes still waiting for isBusy are
+      // left out.
+      const byId = new Map(
+        after.map((path): [string, PathData] => [path.id, path])
+      );
+      return log.getPaths().flatMap((path): PathData[] => {
+        const local = byId.get(path.id);
+        return local ? [local] : [];
+      });
+    },
+    [log]
+  );
+
+  const streamStroke = useCallback(
+    (stroke: Omit<PathData, "id" | "svgPath" | "completed"> | null): void => {
+      const currentAdapter = latest.current.adapter;
+      if (!currentAdapter) return;
+      if (!stroke) {
+        if (!isStreaming.current) return;
+        isStreaming.current = false;
+        currentAdapter.send({ type: "stroke", clientId, path: null });
+        return;
+      }
+      const now = Date.now();
+      if (now - lastSent.current.stroke < STREAM_INTERVAL) return;
+      lastSent.current.stroke = now;
+      isStreaming.current = true;
+      // Receivers rebuild the outline, so only the points travel
+      currentAdapter.send({
+        type: "stroke",
+        clientId,
+        path: {
+          ...stroke,
+          id: `live-${clientId}`,
+          points: [...stroke.points],
+          svgPath: "",
+          completed: false,
+        },
+      });
+    },
+    [clientId]
+  );
+
+  const moveCursor = useCallback(
+    (point: Point | null): void => {
+      const { adapter: currentAdapter, user: currentUser } = latest.current;
+      if (!currentAdapter) return;
+      const now = Date.now();
+      if (point && now - lastSent.current.cursor < STREAM_INTERVAL) return;
+      lastSent.current.cursor = point ? now : 0;
+      currentAdapter.send({
+        type: "cursor",
+        clientId,
+        cursor: point
+          ? {
+              clientId,
+              x: point[0],
+              y: point[1],
+              ...(currentUser?.name ? { name: currentUser.name } : {}),
+              ...(currentUser?.color ? { color: currentUser.color } : {}),
+            }
+          : null,
+      });
+    },
+    [clientId]
+  );
+
+  useEffect((): (() => void) | undefined => {
+    if (!adapter) return undefined;
+
+    const handleMessage = (message: CollaborationMessage): void => {
+      switch (message.type) {
+        case "ops":
+          if (log.apply(message.ops)) showRemotePaths();
+          return;
+        case "sync":
+          if (message.clientId === clientId) return;
+          if (log.apply(message.ops)) showRemotePaths();
+          if (message.reply) {
+            adapter.send({
+              type: "sync",
+              clientId,
+              ops: log.getOps(),
+              reply: false,
+            });
+          }
+          return;
+        case "stroke": {
+          const { path } = message;
+          if (message.clientId === clientId) return;
+          if (!path) {
+            setRemoteStrokes(
+              (strokes): Record<string, PathData> =>
+                omitKey(strokes, message.clientId)
+            );
+            return;
+          }
+          setRemoteStrokes(
+            (strokes): Record<string, PathData> => ({
+              ...strokes,
+              [message.clientId]: { ...path, svgPath: regenerateSvgPath(path) },
+            })
+          );
+          return;
+        }
+        case "cursor": {
+          const { cursor } = message;
+          if (message.clientId === clientId) return;
+          setRemoteCursors(
+            (cursors): Record<string, RemoteCursor> =>
+              cursor
+                ? { ...cursors, [message.clientId]: cursor }
+                : omitKey(cursors, message.clientId)
+          );
+          return;
+        }
+        case "leave":
+          setRemoteStrokes(
+            (strokes): Record<string, PathData> =>
+              omitKey(strokes, message.clientId)
+          );
+          setRemoteCursors(
+            (cursors): Record<string, RemoteCursor> =>
+              omitKey(cursors, message.clientId)
+          );
+          return;
+      }
+    };
+
+    const unsubscribe = adapter.subscribe(handleMessage);
+    // Paths drawn before connecting are shared along with the sync
+    log.commit(log.getPaths(), pathsRef.current ?? []);
+    adapter.send({ type: "sync", clientId, ops: log.getOps(), reply: true });
+
+    return (): void => {
+      adapter.send({ type: "leave", clientId });
+      unsubscribe();
+      setRemoteStrokes({});
+      setRemoteCursors({});
+    };
+  }, [adapter, clientId, log, pathsRef, showRemotePaths]);
+
+  const strokeList = useMemo(
+    (): PathData[] => Object.values(remoteStrokes),
+    [remoteStrokes]
+  );
+  const cursorList = useMemo(
+    (): RemoteCursor[] => Object.values(remoteCursors),
+    [remoteCursors]
+  );
+
+  return {
+    remoteStrokes: strokeList,
+    remoteCursors: cursorList,
+    commitPaths,
+    flushRemote,
+    streamStroke,
+    moveCursor,
+  };
+}
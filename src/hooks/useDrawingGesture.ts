@@ -7,7 +7,8 @@ import type { Point } from "../types";
 interface DrawingGestureConfig {
   onDrawStart?: (point: Point) => void;
   onDrawUpdate?: (point: Point) => void;
-  onDrawEnd?: (points: Point[]) => void;
+  // timestamps holds the time (epoch ms) each point was recorded
+  onDrawEnd?: (points: Point[], timestamps: number[]) => void;
   enablePressure?: boolean;
   enableVelocity?: boolean;
   minDistance?: number;
@@ -20,6 +21,7 @@ interface DrawingGestureConfig {
 interface DrawingGestureResult {
   gesture: PanGesture;
   currentPath: SharedValue<Point[]>;
+  currentTimestamps: SharedValue<number[]>;
   isDrawing: SharedValue<boolean>;
 }
 
@@ -40,6 +42,7 @@ export function useDrawingGesture(
   } = config;
 
   const currentPath = useSharedValue<Point[]>([]);
+  const currentTimestamps = useSharedValue<number[]>([]);
   const lastPoint = useSharedValue<Point | null>(null);
   const lastTime = useSharedValue<number>(0);
   const isDrawing = useSharedValue<boolean>(false);
@@ -66,6 +69,7 @@ export function useDrawingGesture(
           : [transformedX, transformedY];
 
       currentPath.value = [point];
+      currentTimestamps.value = [now];
       lastPoint.value = point;
       lastTime.value = now;
       isDrawing.value = true;
@@ -122,7 +126,17 @@ export function useDrawingGesture(
           ? [transformedX, transformedY, finalPressure]
           : [transformedX, transformedY];
 
-      currentPath.value = [...currentPath.value, point];
+      // Appended in place so long strokes aren't copied on every point
+      currentPath.modify(<T extends Point[]>(path: T): T => {
+        "worklet";
+        path.push(point);
+        return path;
+      });
+      currentTimestamps.modify(<T extends number[]>(times: T): T => {
+        "worklet";
+        times.push(now);
+        return times;
+      });
       lastPoint.value = point;
       lastTime.value = now;
 
@@ -145,13 +159,15 @@ export function useDrawingGesture(
     if (!isDrawing.value) return;
 
     const points = [...currentPath.value];
+    const timestamps = [...currentTimestamps.value];
     isDrawing.value = false;
     currentPath.value = [];
+    currentTimestamps.value = [];
     lastPoint.value = null;
 
     // Always call onDrawEnd even for single tap (dot)
     if (onDrawEnd && points.length > 0) {
-      scheduleOnRN(onDrawEnd, points);
+      scheduleOnRN(onDrawEnd, points, timestamps);
     }
   }, [onDrawEnd]);
 
@@ -208,6 +224,7 @@ export function useDrawingGesture(
   return {
     gesture: panGesture,
     currentPath,
+    currentTimestamps,
     isDrawing,
   };
 }
@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import {
+  useAnimatedReaction,
+  useSharedValue,
+  SharedValue,
+} from "react-native-reanimated";
+import { isWorkletFunction } from "react-native-worklets";
+import type { Point, StrokeOptions } from "../types";
+import { createLiveStroke, updateLiveStroke, LiveStrokeState } from "../utils";
+
+interface LiveStrokeConfig {
+  // Points of the stroke being drawn, e.g. useDrawingGesture's currentPath
+  points: SharedValue<Point[]>;
+  // Receives the outline. It's left as is when the stroke ends, so the
+  // caller can clear it once the committed path is on screen.
+  output: SharedValue<string>;
+  options: StrokeOptions;
+  enabled: boolean;
+  // The output is only written while set, e.g. once the JS side has accepted
+  // the stroke and while no recognized shape is shown in its place
+  active?: SharedValue<boolean>;
+  // Replaces the stroke's first point, e.g. snapped to the paper grid
+  start?: SharedValue<Point | null>;
+}
+
+// Outlines the stroke on the UI thread as its points arrive, recomputing
+// only the end of the stroke each time. A custom easing is only used here
+// if it is a worklet; the committed path always uses it.
+export function useLiveStroke(config: LiveStrokeConfig): void {
+  const { points, output, options, enabled, active, start } = config;
+
+  const liveOptions = useMemo(
+    (): StrokeOptions =>
+      options.easing && !isWorkletFunction(options.easing)
+        ? { ...options, easing: undefined }
+        : options,
+    [options]
+  );
+  const state = useSharedValue<LiveStrokeState>(createLiveStroke());
+
+  useAnimatedReaction(
+    // Reading active here runs the reaction again as soon as it's set
+    (): Point[] | null => (active && !active.value ? null : points.value),
+    (current): void => {
+      if (!enabled || !current || current.length === 0) return;
+      let svgPath = "";
+      // Updated in place, the state is never read from JS
+      state.modify(<T extends LiveStrokeState>(value: T): T => {
+        "worklet";
+        svgPath = updateLiveStroke(value, current, liveOptions, start?.value);
+        return value;
+      }, false);
+      output.value = svgPath;
+    },
+    [enabled, liveOptions]
+  );
+}
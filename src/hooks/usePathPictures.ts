@@ -0,0 +1,163 @@
+import { useMemo, useRef } from "react";
+import {
+  BlendMode,
+  PaintStyle,
+  Skia,
+  StrokeCap,
+  StrokeJoin,
+} from "@shopify/react-native-skia";
+import type {
+  SkCanvas,
+  SkPath,
+  SkPicture,
+  SkRect,
+} from "@shopify/react-native-skia";
+import type { LayerContent, PathData, StrokeBlendMode } from "../types";
+import { splitPathRuns } from "../utils";
+
+// Strokes can sit anywhere once the canvas is panned, so pictures are
+// recorded with a generous area around the origin rather than the view
+const PICTURE_BOUNDS: SkRect = {
+  x: -1e6,
+  y: -1e6,
+  width: 2e6,
+  height: 2e6,
+};
+
+// Each append draws the previous picture into a new one. After this many
+// the picture is recorded again from scratch so the nesting stays shallow.
+const MAX_APPENDS = 32;
+
+// Committed strokes are flattened into pictures. Paths listed as live are
+// drawn as nodes of their own between them, keeping their place in the
+// stacking order.
+export type PathSegment =
+  | { type: "picture"; key: string; picture: SkPicture }
+  | { type: "path"; path: PathData };
+
+interface PictureEntry {
+  paths: PathData[];
+  picture: SkPicture;
+  appends: number;
+}
+
+interface PathPicturesConfig {
+  layers: LayerContent[];
+  // Paths that change every frame, e.g. selected paths following the live
+  // transform or the stroke being replayed
+  liveIds: string[];
+}
+
+interface PathPicturesResult {
+  // Segments per layer id, in drawing order
+  segments: Record<string, PathSegment[]>;
+}
+
+function toSkiaBlendMode(mode: StrokeBlendMode): BlendMode {
+  const key = (mode.charAt(0).toUpperCase() +
+    mode.slice(1)) as keyof typeof BlendMode;
+  return BlendMode[key];
+}
+
+// Whether every path in the prefix starts the list, in the same order
+function startsWith(paths: PathData[], prefix: PathData[]): boolean {
+  if (prefix.length > paths.length) return false;
+  return prefix.every((path, i): boolean => paths[i] === path);
+}
+
+// Records committed paths into cached Skia pictures so the render tree holds
+// one node per run of strokes instead of one per stroke. Paths added on top
+// are appended to the previous picture; any other change (undo, erase,
+// edits) records the run again.
+export function usePathPictures(
+  config: PathPicturesConfig
+): PathPicturesResult {
+  const { layers, liveIds } = config;
+
+  const cache = useRef(new Map<string, PictureEntry>());
+  // Parsed outlines, reused whenever a picture is recorded again
+  const skPaths = useRef(new WeakMap<PathData, SkPath | null>());
+
+  const segments = useMemo((): Record<string, PathSegment[]> => {
+    const live = new Set(liveIds);
+    const used = new Set<string>();
+
+    const getSkPath = (path: PathData): SkPath | null => {
+      if (skPaths.current.has(path)) return skPaths.current.get(path) ?? null;
+      const skPath = Skia.Path.MakeFromSVGString(path.svgPath);
+      skPaths.current.set(path, skPath);
+      return skPath;
+    };
+
+    const drawPaths = (canvas: SkCanvas, paths: PathData[]): void => {
+      const paint = Skia.Paint();
+      paint.setAntiAlias(true);
+      paint.setStrokeCap(StrokeCap.Round);
+      paint.setStrokeJoin(StrokeJoin.Round);
+      for (const path of paths) {
+        const skPath = getSkPath(path);
+        if (!skPath) continue;
+        paint.setColor(Skia.Color(path.color));
+        paint.setAlphaf(paint.getAlphaf() * (path.opacity || 1));
+        paint.setStyle(
+          path.renderStyle === "stroke" ? PaintStyle.Stroke : PaintStyle.Fill
+        );
+        paint.setStrokeWidth(path.width);
+        paint.setBlendMode(toSkiaBlendMode(path.blendMode ?? "srcOver"));
+        canvas.drawPath(skPath, paint);
+      }
+    };
+
+    const record = (draw: (canvas: SkCanvas) => void): SkPicture => {
+      const recorder = Skia.PictureRecorder();
+      draw(recorder.beginRecording(PICTURE_BOUNDS));
+      return recorder.finishRecordingAsPicture();
+    };
+
+    const getPicture = (key: string, paths: PathData[]): SkPicture => {
+      used.add(key);
+      const entry = cache.current.get(key);
+      const isAppend = entry ? startsWith(paths, entry.paths) : false;
+      if (entry && isAppend && entry.paths.length === paths.length) {
+        return entry.picture;
+      }
+
+      const next: PictureEntry =
+        entry && isAppend && entry.appends < MAX_APPENDS
+          ? {
+              paths,
+              picture: record((canvas): void => {
+                canvas.drawPicture(entry.picture);
+                drawPaths(canvas, paths.slice(entry.paths.length));
+              }),
+              appends: entry.appends + 1,
+            }
+          : {
+              paths,
+              picture: record((canvas): void => drawPaths(canvas, paths)),
+              appends: 0,
+            };
+      cache.current.set(key, next);
+      return next.picture;
+    };
+
+    const result: Record<string, PathSegment[]> = {};
+    for (const { layer, paths } of layers) {
+      result[layer.id] = splitPathRuns(paths, live).map(
+        (run, index): PathSegment => {
+          if (run.type === "path") return run;
+          const key = `${layer.id}:${index}`;
+          return { type: "picture", key, picture: getPicture(key, run.paths) };
+        }
+      );
+    }
+
+    // Drop pictures for runs and layers that are gone
+    for (const key of cache.current.keys()) {
+      if (!used.has(key)) cache.current.delete(key);
+    }
+    return result;
+  }, [layers, liveIds]);
+
+  return { segments };
+}
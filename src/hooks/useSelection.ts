@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Skia, SkMatrix } from "@shopify/react-native-skia";
+import {
+  useSharedValue,
+  useDerivedValue,
+  SharedValue,
+} from "react-native-reanimated";
+import type {
+  PathData,
+  Point,
+  SelectionMode,
+  SelectionTransform,
+} from "../types";
+import {
+  IDENTITY_TRANSFORM,
+  getPathsInPolygon,
+  getSelectionBounds,
+  getSelectionHandleAt,
+  getSvgPathFromPoints,
+  rectToPolygon,
+  transformPath,
+  HistoryCommand,
+  SelectionBounds,
+  SelectionHandle,
+} from "../utils";
+
+interface SelectionConfig {
+  paths: PathData[];
+  pathsRef: React.RefObject<PathData[]>;
+  executeCommand: (command: HistoryCommand, label: string) => void;
+  mode?: SelectionMode;
+  scale?: SharedValue<number>;
+  handleTolerance?: number;
+  // Paths that can't be selected, e.g. on locked layers, are skipped
+  isSelectable?: (path: PathData) => boolean;
+  onSelectionChange?: (ids: string[]) => void;
+}
+
+interface SelectionResult {
+  selectedIds: string[];
+  selectedBounds: SelectionBounds | null;
+  selectionMatrix: SharedValue<SkMatrix>;
+  selectionOutline: SharedValue<string>;
+  setSelection: (ids: string[]) => void;
+  handleStart: (point: Point) => void;
+  handleUpdate: (point: Point) => void;
+  handleEnd: () => void;
+}
+
+interface ActiveSelectionGesture {
+  kind: "select" | SelectionHandle;
+  start: Point;
+  points: Point[];
+  origin: Point;
+}
+
+export function useSelection(config: SelectionConfig): SelectionResult {
+  const {
+    paths,
+    pathsRef,
+    executeCommand,
+    mode = "lasso",
+    scale,
+    handleTolerance = 16,
+    isSelectable,
+    onSelectionChange,
+  } = config;
+
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectedIdsRef = useRef<string[]>([]);
+  const activeGesture = useRef<ActiveSelectionGesture | null>(null);
+
+  // Transform previewed on the UI thread while dragging; it is baked into the
+  // path points once the gesture ends
+  const transform = useSharedValue<SelectionTransform>(IDENTITY_TRANSFORM);
+  const selectionOutline = useSharedValue<string>("");
+
+  const selectionMatrix = useDerivedValue((): SkMatrix => {
+    const {
+      translateX,
+      translateY,
+      scale: factor,
+      rotation,
+      originX,
+      originY,
+    } = transform.value;
+    const matrix = Skia.Matrix();
+    matrix.translate(originX + translateX, originY + translateY);
+    matrix.rotate(rotation);
+    matrix.scale(factor, factor);
+    matrix.translate(-originX, -originY);
+    return matrix;
+  });
+
+  const setSelection = useCallback(
+    (ids: string[]): void => {
+      selectedIdsRef.current = ids;
+      setSelectedIds(ids);
+      onSelectionChange?.(ids);
+    },
+    [onSelectionChange]
+  );
+
+  const selectedBounds = useMemo((): SelectionBounds | null => {
+    const ids = new Set(selectedIds);
+    return getSelectionBounds(
+      paths.filter((path): boolean => ids.has(path.id))
+    );
+  }, [paths, selectedIds]);
+
+  // Drop ids of paths that no longer exist or can no longer be selected,
+  // e.g. after undo, erase or locking a layer
+  useEffect((): void => {
+    const existing = new Set(
+      (isSelectable ? paths.filter(isSelectable) : paths).map(
+        (path): string => path.id
+      )
+    );
+    const remaining = selectedIdsRef.current.filter((id): boolean =>
+      existing.has(id)
+    );
+    if (remaining.length !== selectedIdsRef.current.length) {
+      setSelection(remaining);
+    }
+  }, [paths, isSelectable, setSelection]);
+
+  const handleStart = useCallback(
+    (point: Point): void => {
+      // Handles keep a constant size on screen regardless of zoom
+      const tolerance = handleTolerance / (scale ? scale.value : 1);
+      const handle = selectedBounds
+        ? getSelectionHandleAt(point, selectedBounds, tolerance)
+        : null;
+      const origin: Point = selectedBounds
+        ? [
+            selectedBounds.minX + selectedBounds.width / 2,
+            selectedBounds.minY + selectedBounds.height / 2,
+          ]
+        : point;
+
+      activeGesture.current = {
+        kind: handle ?? "select",
+        start: point,
+        points: [point],
+        origin,
+      };
+      transform.value = {
+        ...IDENTITY_TRANSFORM,
+        originX: origin[0],
+        originY: origin[1],
+      };
+    },
+    [handleTolerance, scale, selectedBounds]
+  );
+
+  const handleUpdate = useCallback(
+    (point: Point): void => {
+      const gesture = activeGesture.current;
+      if (!gesture) return;
+
+      const { kind, start, origin } = gesture;
+      switch (kind) {
+        case "select": {
+          gesture.points.push(point);
+          selectionOutline.value =
+            mode === "rectangle"
+              ? getSvgPathFromPoints(rectToPolygon(start, point), true)
+              : getSvgPathFromPoints(gesture.points, true);
+          break;
+        }
+        case "move":
+          transform.value = {
+            ...transform.value,
+            translateX: point[0] - start[0],
+            translateY: point[1] - start[1],
+          };
+          break;
+        case "scale": {
+          const startDistance = Math.hypot(
+            start[0] - origin[0],
+            start[1] - origin[1]
+          );
+          const distance = Math.hypot(
+            point[0] - origin[0],
+            point[1] - origin[1]
+          );
+          transform.value = {
+            ...transform.value,
+            scale: Math.max(0.05, distance / Math.max(startDistance, 1)),
+          };
+          break;
+        }
+        case "rotate":
+          transform.value = {
+            ...transform.value,
+            rotation:
+              Math.atan2(point[1] - origin[1], point[0] - origin[0]) -
+              Math.atan2(start[1] - origin[1], start[0] - origin[0]),
+          };
+          break;
+      }
+    },
+    [mode]
+  );
+
+  const handleEnd = useCallback((): void => {
+    const gesture = activeGesture.current;
+    activeGesture.current = null;
+    if (!gesture) return;
+
+    if (gesture.kind === "select") {
+      const last = gesture.points[gesture.points.length - 1];
+      const polygon =
+        mode === "rectangle"
+          ? rectToPolygon(gesture.start, last)
+          : gesture.points;
+      selectionOutline.value = "";
+      const candidates = isSelectable
+        ? pathsRef.current.filter(isSelectable)
+        : pathsRef.current;
+      setSelection(getPathsInPolygon(candidates, polygon));
+      return;
+    }
+
+    const finalTransform = transform.value;
+    const isIdentity =
+      finalTransform.translateX === 0 &&
+      finalTransform.translateY === 0 &&
+      finalTransform.scale === 1 &&
+      finalTransform.rotation === 0;
+
+    if (!isIdentity) {
+      const ids = new Set(selectedIdsRef.current);
+      const before = pathsRef.current.filter((path): boolean =>
+        ids.has(path.id)
+      );
+      const after = before.map(
+        (path): PathData => transformPath(path, finalTransform)
+      );
+      executeCommand({ type: "modify", before, after }, "transform");
+    }
+
+    // Reset the preview after the transformed paths have rendered
+    requestAnimationFrame((): void => {
+      transform.value = IDENTITY_TRANSFORM;
+    });
+  }, [mode, pathsRef, isSelectable, executeCommand, setSelection]);
+
+  return {
+    selectedIds,
+    selectedBounds,
+    selectionMatrix,
+    selectionOutline,
+    setSelection,
+    handleStart,
+    handleUpdate,
+    handleEnd,
+  };
+}
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import {
+  useAnimatedReaction,
+  useSharedValue,
+  SharedValue,
+} from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+import type { CanvasRect } from "../types";
+
+// The rect reaches this far past each edge of the view, as a fraction of
+// the view size, so small pans and zooms don't change it
+const VIEWPORT_MARGIN = 0.5;
+
+interface ViewportRectConfig {
+  scale: SharedValue<number>;
+  translation: SharedValue<{ x: number; y: number }>;
+  width: number;
+  height: number;
+}
+
+// World-space area around what the canvas shows, for culling content. It
+// only changes (on the JS thread) once the view leaves it or zooms in well
+// past it, not on every gesture frame. Null until the canvas has a size.
+export function useViewportRect(config: ViewportRectConfig): CanvasRect | null {
+  const { scale, translation, width, height } = config;
+
+  const [rect, setRect] = useState<CanvasRect | null>(null);
+  const current = useSharedValue<CanvasRect | null>(null);
+
+  useAnimatedReaction(
+    (): CanvasRect | null => {
+      if (width <= 0 || height <= 0 || scale.value <= 0) return null;
+      return {
+        x: -translation.value.x / scale.value,
+        y: -translation.value.y / scale.value,
+        width: width / scale.value,
+        height: height / scale.value,
+      };
+    },
+    (view): void => {
+      const last = current.value;
+      if (!view) {
+        if (last) {
+          current.value = null;
+          scheduleOnRN(setRect, null);
+        }
+        return;
+      }
+
+      const contained =
+        !!last &&
+        view.x >= last.x &&
+        view.y >= last.y &&
+        view.x + view.width <= last.x + last.width &&
+        view.y + view.height <= last.y + last.height;
+      // Zoomed in far enough that most of the rect is off screen
+      const tooLarge =
+        !!last && view.width * (1 + VIEWPORT_MARGIN * 4) < last.width;
+      if (contained && !tooLarge) return;
+
+      const next = {
+        x: view.x - view.width * VIEWPORT_MARGIN,
+        y: view.y - view.height * VIEWPORT_MARGIN,
+        width: view.width * (1 + VIEWPORT_MARGIN * 2),
+        height: view.height * (1 + VIEWPORT_MARGIN * 2),
+      };
+      current.value = next;
+      scheduleOnRN(setRect, next);
+    },
+    [width, height]
+  );
+
+  return rect;
+}
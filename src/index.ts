@@ -1,6 +1,7 @@
 // Main export
 export { PerfectCanvas as default } from "./components/PerfectCanvas";
 export { PerfectCanvas } from "./components/PerfectCanvas";
+export { PerfectCanvasReplay } from "./components/PerfectCanvasReplay";
 
 // Type exports
 export type {
@@ -10,15 +11,82 @@ export type {
   Point,
   DrawingState,
   StrokeOptions,
+  DrawingTool,
+  EraserMode,
+  SelectionMode,
+  SelectionTransform,
+  ShapeType,
+  ShapeData,
+  ShapeRenderMode,
+  RecognizedShape,
+  RecognizedShapeType,
+  StrokeBlendMode,
+  HistoryEntry,
+  HistoryChangeEvent,
+  HistoryExportOptions,
+  HistoryImportOptions,
+  SetPathsOptions,
+  TextElement,
+  NewTextElement,
+  CanvasContent,
+  Layer,
+  LayerContent,
+  BackgroundImageFit,
+  BackgroundImageSource,
+  CanvasRect,
+  PaperType,
+  PaperOptions,
+  SnapMode,
+  SvgExportOptions,
+  SvgImportResult,
+  SvgImportOptions,
+  CanvasDocument,
+  DocumentMetadata,
+  DocumentExportOptions,
+  DocumentImportOptions,
+  DocumentValidationError,
+  PdfPageSize,
+  PdfPageSizeName,
+  PdfExportOptions,
+  InkMLExportOptions,
+  InkMLImportOptions,
+  BinaryEncodeOptions,
+  CollaborationOp,
+  CollaborationUser,
+  CollaborationMessage,
+  CollaborationAdapter,
+  RemoteCursor,
+  IdChanges,
+  ContentPatch,
+  StylePatch,
+  CanvasPatch,
+  CanvasStyle,
+  PerfectCanvasReplayProps,
+  ReplayOptions,
+  ReplayProgress,
+  ReplayController,
 } from "./types";
 
 // Hook exports
-export { useHaptics, useDrawingGesture, useZoomGesture } from "./hooks";
+export {
+  useHaptics,
+  useDrawingGesture,
+  useZoomGesture,
+  useSelection,
+  useBackgroundImage,
+  useCollaboration,
+  useLiveStroke,
+  usePathPictures,
+  useViewportRect,
+} from "./hooks";
+export type { PathSegment } from "./hooks";
 
 // Utility exports
 export {
   getSvgPathFromStroke,
   createSvgFromPaths,
+  getCssBlendMode,
+  sortPathsForRendering,
   parseSvgPath,
   generateId,
   processPoints,
@@ -28,4 +96,96 @@ export {
   getVelocity,
   velocityToPressure,
   HistoryManager,
+  applyHistoryCommand,
+  revertHistoryCommand,
+  HISTORY_FORMAT_VERSION,
+  createRemoveCommand,
+  createReplaceCommand,
+  createRemoveTextCommand,
+  erasePathSegment,
+  getSvgPathFromPoints,
+  pointInPolygon,
+  rectToPolygon,
+  getPathsInPolygon,
+  getSelectionBounds,
+  transformPoint,
+  transformPath,
+  getShapeVertices,
+  getShapePoints,
+  getShapeSvgPath,
+  transformShape,
+  regenerateSvgPath,
+  recognizeShape,
+  distanceToSegment,
+  distanceBetweenSegments,
+  pathIntersectsSegment,
+  findPathsNearSegment,
+  getTextLines,
+  getTextBox,
+  findTextAt,
+  TEXT_LINE_HEIGHT,
+  DEFAULT_LAYER_ID,
+  createLayer,
+  createDefaultLayers,
+  createRemoveLayerCommand,
+  resolveLayerId,
+  groupByLayer,
+  getContentByLayer,
+  getEditableLayerIds,
+  moveLayer,
+  getImageFitRect,
+  parseDataUri,
+  getPaperSvgPath,
+  snapToPaper,
+  parseSvgPathCommands,
+  parseSvgTransform,
+  transformSvgPath,
+  flattenSvgPath,
+  parseSvgDocument,
+  STROKE_BLEND_MODES,
+  DOCUMENT_FORMAT_VERSION,
+  createDocument,
+  migrateDocument,
+  validateDocument,
+  validatePaths,
+  formatValidationErrors,
+  parseDocument,
+  PDF_PAGE_SIZES,
+  createPdfFromPaths,
+  parseCssColor,
+  bytesToBase64,
+  getSimplifiedIndices,
+  DEFAULT_REPLAY_MAX_PAUSE,
+  DEFAULT_REPLAY_STROKE_DURATION,
+  spreadTimestamps,
+  createReplayTimeline,
+  getReplayFrame,
+  createReplayPlayer,
+  INKML_NAMESPACE,
+  toInkML,
+  fromInkML,
+  BINARY_FORMAT_VERSION,
+  DEFAULT_BINARY_PRECISION,
+  encodePaths,
+  decodePaths,
+  OperationLog,
+  compareOps,
+  createLoopbackHub,
+  diffById,
+  createLiveStroke,
+  updateLiveStroke,
+  DEFAULT_SPATIAL_CELL_SIZE,
+  SpatialIndex,
+  getPathExtent,
+} from "./utils";
+export type {
+  HistoryCommand,
+  HistoryState,
+  SerializedHistory,
+  SvgBackgroundImage,
+  AffineMatrix,
+  SvgPathCommand,
+  ReplayStroke,
+  ReplayTimeline,
+  LiveStrokeState,
 } from "./utils";
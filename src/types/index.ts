@@ -1,6 +1,7 @@
 import type { SkImage, ImageFormat } from "@shopify/react-native-skia";
 import type { ViewStyle } from "react-native";
 import type { SharedValue } from "react-native-reanimated";
+import type { SerializedHistory } from "../utils/history";
 
 export type Point = [number, number, number?]; // [x, y, pressure?]
 
@@ -8,6 +9,49 @@ export type HapticStyle = "light" | "medium" | "heavy" | "soft" | "rigid";
 
 export type RenderMode = "continuous" | "onDemand";
 
+// Separable blend modes, named as in Skia. "srcOver" is normal painting.
+export type StrokeBlendMode =
+  | "srcOver"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "colorDodge"
+  | "colorBurn"
+  | "hardLight"
+  | "softLight"
+  | "difference"
+  | "exclusion"
+  | "hue"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+export type DrawingTool =
+  | "pen"
+  | "highlighter"
+  | "eraser"
+  | "select"
+  | "shape"
+  | "text";
+
+export type SelectionMode = "lasso" | "rectangle";
+
+// Rotation (radians) and uniform scale are applied around the origin before
+// translating
+export interface SelectionTransform {
+  translateX: number;
+  translateY: number;
+  scale: number;
+  rotation: number;
+  originX: number;
+  originY: number;
+}
+
+// "stroke" removes whole paths, "partial" cuts through them
+export type EraserMode = "stroke" | "partial";
+
 export interface StrokeOptions {
   size?: number;
   thinning?: number;
@@ -24,6 +68,33 @@ export interface StrokeOptions {
   };
 }
 
+export type ShapeType = "line" | "rectangle" | "ellipse" | "arrow" | "polygon";
+
+// "freehand" runs shapes through perfect-freehand, "geometric" strokes the
+// exact geometry
+export type ShapeRenderMode = "freehand" | "geometric";
+
+// Parameters a shape was drawn with, kept so it can be re-edited. Geometry is
+// defined by the start/end drag box, rotated (radians) around its centre.
+export interface ShapeData {
+  type: ShapeType;
+  start: Point;
+  end: Point;
+  rotation?: number;
+  sides?: number;
+  // Explicit corners for irregular polygons, e.g. a recognized triangle
+  vertices?: Point[];
+}
+
+export type RecognizedShapeType = "line" | "ellipse" | "rectangle" | "triangle";
+
+export interface RecognizedShape {
+  type: RecognizedShapeType;
+  // 0-1, how closely the stroke matched the clean shape
+  confidence: number;
+  shape: ShapeData;
+}
+
 export interface PathData {
   id: string;
   points: Point[];
@@ -31,22 +102,404 @@ export interface PathData {
   color: string;
   width: number;
   opacity?: number;
-  blendMode?: string;
+  blendMode?: StrokeBlendMode;
+  // Highlighter strokes render beneath ink regardless of drawing order
+  highlighter?: boolean;
+  // Options the outline was generated with, reused when regenerating svgPath
+  strokeOptions?: StrokeOptions;
+  // "fill" paths hold a filled outline, "stroke" paths a centreline drawn
+  // with `width` as the stroke width
+  renderStyle?: "fill" | "stroke";
+  shape?: ShapeData;
+  // Geometry lives in svgPath, e.g. for imported SVG; points are a flattened
+  // copy used for hit-testing
+  fromSvg?: boolean;
+  // Paths without a layer belong to the default layer
+  layerId?: string;
+  // When each point was recorded (epoch ms), used for replay. Erasing gives
+  // each fragment its share; other edits that change the number of points
+  // keep the array, and replay then spreads the first to last time evenly.
+  timestamps?: number[];
   completed: boolean;
 }
 
+// Text label placed on the canvas. (x, y) is the start of the first line's
+// baseline in world coordinates; rotation (radians) is around that point.
+export interface TextElement {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+  color: string;
+  rotation?: number;
+  opacity?: number;
+  fontFamily?: string;
+  layerId?: string;
+}
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  // Locked layers are drawn but can't be drawn on, erased or selected
+  locked: boolean;
+  opacity: number;
+}
+
+export interface LayerContent {
+  layer: Layer;
+  paths: PathData[];
+  texts: TextElement[];
+}
+
+// Everything history commands operate on. Layers are ordered bottom to top.
+export interface CanvasContent {
+  paths: PathData[];
+  texts: TextElement[];
+  layers: Layer[];
+}
+
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// How a background image is sized within its frame: "contain" letterboxes,
+// "cover" crops, "stretch" ignores the aspect ratio and "none" keeps the
+// natural size, centred
+export type BackgroundImageFit = "contain" | "cover" | "stretch" | "none";
+
+// A loaded Skia image, or a URI / data URI to load
+export type BackgroundImageSource = SkImage | string;
+
+export type PaperType = "grid" | "lines" | "dots" | "isometric";
+
+// Ruled or squared paper drawn beneath the ink, anchored at the world origin.
+// Sizes are in world units.
+export interface PaperOptions {
+  type: PaperType;
+  spacing?: number;
+  color?: string;
+  lineWidth?: number;
+  dotSize?: number;
+  // x of a vertical margin line, as on exercise paper
+  marginX?: number;
+  marginColor?: string;
+}
+
+// "shapes" snaps shape endpoints to the paper, "all" also snaps the start of
+// freehand strokes
+export type SnapMode = "off" | "shapes" | "all";
+
+export interface SvgExportOptions {
+  // Include the paper as an SVG pattern
+  includePaper?: boolean;
+}
+
+// Content parsed from an SVG document. layers is empty unless the document
+// has layer groups, as written by toSvg.
+export interface SvgImportResult {
+  paths: PathData[];
+  texts: TextElement[];
+  layers: Layer[];
+  width?: number;
+  height?: number;
+  backgroundColor?: string;
+  backgroundImage?: string;
+  paper?: PaperOptions;
+}
+
+export interface SvgImportOptions {
+  // Replace the drawing, layers and background instead of adding to the
+  // active layer
+  replace?: boolean;
+}
+
+export type PdfPageSizeName = "a3" | "a4" | "a5" | "letter" | "legal";
+
+// Named size or { width, height } in points (1/72 inch)
+export type PdfPageSize = PdfPageSizeName | { width: number; height: number };
+
+export interface PdfExportOptions {
+  pageSize?: PdfPageSize;
+  // "auto" turns the page to match the drawing's aspect ratio
+  orientation?: "portrait" | "landscape" | "auto";
+  // In points
+  margin?: number;
+  // Fit the drawn content to the page instead of the whole canvas
+  fitToContent?: boolean;
+  includeBackground?: boolean;
+  output?: "base64" | "bytes";
+}
+
+export interface InkMLExportOptions {
+  // Decimal places kept for coordinates, widths and pressure
+  precision?: number;
+  // Write an F channel for paths with pressure on every point
+  includePressure?: boolean;
+  // Write a T channel for paths with recorded timestamps
+  includeTimestamps?: boolean;
+}
+
+export interface InkMLImportOptions {
+  // Outline settings for the strokes; size comes from each trace's brush
+  strokeOptions?: StrokeOptions;
+  // Used for traces without a brush colour or width
+  color?: string;
+  width?: number;
+  layerId?: string;
+}
+
+export interface BinaryEncodeOptions {
+  // Decimal places kept for coordinates and widths, 0-6
+  precision?: number;
+}
+
+// Change to one path, stamped with the client that made it and that
+// client's Lamport clock
+interface CollaborationOpBase {
+  clientId: string;
+  clock: number;
+  pathId: string;
+}
+
+export type CollaborationOp =
+  | (CollaborationOpBase & { type: "add"; path: PathData })
+  | (CollaborationOpBase & { type: "update"; path: PathData })
+  | (CollaborationOpBase & { type: "remove" });
+
+export interface CollaborationUser {
+  // Generated when not given
+  id?: string;
+  name?: string;
+  // Colour of this user's cursor on other devices
+  color?: string;
+}
+
+// Where another user is touching the canvas, in world coordinates
+export interface RemoteCursor {
+  clientId: string;
+  x: number;
+  y: number;
+  name?: string;
+  color?: string;
+}
+
+export type CollaborationMessage =
+  | { type: "ops"; ops: CollaborationOp[] }
+  // Sent on connect with the sender's state; peers reply with theirs
+  | {
+      type: "sync";
+      clientId: string;
+      ops: CollaborationOp[];
+      reply: boolean;
+    }
+  // Stroke being drawn, null once it ends
+  | { type: "stroke"; clientId: string; path: PathData | null }
+  | { type: "cursor"; clientId: string; cursor: RemoteCursor | null }
+  | { type: "leave"; clientId: string };
+
+// Transport between canvases, e.g. over a WebSocket. Listeners only receive
+// messages sent by other clients.
+export interface CollaborationAdapter {
+  send: (message: CollaborationMessage) => void;
+  // Returns a function that unsubscribes
+  subscribe: (listener: (message: CollaborationMessage) => void) => () => void;
+}
+
+export interface ReplayProgress {
+  // Playback position in ms of original drawing time
+  time: number;
+  duration: number;
+  // 0-1
+  progress: number;
+}
+
+export interface ReplayOptions {
+  // Playback rate, 2 plays twice as fast
+  speed?: number;
+  // Longest pause between strokes in ms; longer breaks are shortened
+  maxPause?: number;
+  // How long strokes without timestamps take to draw, in ms
+  strokeDuration?: number;
+  loop?: boolean;
+  onProgress?: (progress: ReplayProgress) => void;
+  onComplete?: () => void;
+}
+
+export interface ReplayController {
+  play: () => void;
+  pause: () => void;
+  // Jumps to a time in ms, clamped to the duration
+  seek: (time: number) => void;
+  // Ends playback; a replaying canvas shows the drawing again and its
+  // controller can't be played again
+  stop: () => void;
+  setSpeed: (speed: number) => void;
+  isPlaying: () => boolean;
+  getTime: () => number;
+  getDuration: () => number;
+}
+
+export interface DocumentMetadata {
+  title?: string;
+  // ISO 8601 timestamps
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: unknown;
+}
+
+// Saved drawing as written by exportDocument. Older versions are migrated on
+// import, so the shape below is always the current one.
+export interface CanvasDocument {
+  version: number;
+  // Size of the canvas the drawing was made on, 0 when unknown
+  canvas: { width: number; height: number };
+  background: {
+    color: string;
+    // URI or data URI
+    image?: string;
+    imageFit?: BackgroundImageFit;
+    paper?: PaperOptions;
+  };
+  viewport: { scale: number; translateX: number; translateY: number };
+  // Pen settings at the time of export. easing can't be serialized and is
+  // left out of all stroke options.
+  stroke: {
+    color: string;
+    width: number;
+    opacity: number;
+    options: StrokeOptions;
+  };
+  paths: PathData[];
+  texts: TextElement[];
+  layers: Layer[];
+  metadata: DocumentMetadata;
+}
+
+export interface DocumentExportOptions {
+  // Merged over the imported document's metadata, whose createdAt is kept,
+  // and a fresh updatedAt
+  metadata?: DocumentMetadata;
+}
+
+export interface DocumentImportOptions {
+  // Record the import as an undoable step instead of starting a new history
+  recordHistory?: boolean;
+}
+
+// One problem found by validateDocument. path points at the offending value,
+// e.g. "paths[3].points[0]".
+export interface DocumentValidationError {
+  path: string;
+  message: string;
+}
+
 export interface DrawingState {
   paths: PathData[];
-  currentPath: PathData | null;
+  texts: TextElement[];
+  layers: Layer[];
+  activeLayerId: string;
+  // Stroke or shape being drawn, null between strokes. A freehand stroke's
+  // svgPath stays empty until it's committed, and its points are the live
+  // list, which keeps growing; copy them to keep a snapshot.
+  currentPath: (Omit<PathData, "points"> & { points: readonly Point[] }) | null;
   isDrawing: boolean;
   strokeColor: string;
   strokeWidth: number;
   strokeOpacity: number;
 }
 
+export interface HistoryEntry {
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  label: string;
+  timestamp: number;
+  isCurrent: boolean;
+}
+
+export interface HistoryChangeEvent {
+  canUndo: boolean;
+  canRedo: boolean;
+  index: number;
+  size: number;
+  currentId: string | null;
+}
+
+// Ids of elements that changed, in their order after the change. Updated
+// elements kept their id but were replaced, e.g. moved or recoloured.
+export interface IdChanges {
+  added: string[];
+  removed: string[];
+  updated: string[];
+}
+
+export interface ContentPatch {
+  // "change" for edits, "remote" for collaborators' edits and "jump" for
+  // jumpTo
+  type: "change" | "clear" | "undo" | "redo" | "jump" | "remote";
+  // History label of the edit, e.g. "draw", "erase" or "setPaths"
+  label?: string;
+  paths: IdChanges;
+  texts: IdChanges;
+  // Present when the layers changed
+  layers?: Layer[];
+}
+
+export interface CanvasStyle {
+  strokeColor: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+  blendMode?: StrokeBlendMode;
+  highlighterColor: string;
+  highlighterWidth: number;
+  backgroundColor: string;
+}
+
+export interface StylePatch {
+  type: "style";
+  changes: Partial<CanvasStyle>;
+}
+
+export type CanvasPatch = ContentPatch | StylePatch;
+
+export interface HistoryExportOptions {
+  // Oldest and abandoned entries are dropped until the JSON fits
+  maxBytes?: number;
+}
+
+export interface HistoryImportOptions {
+  // Replace the current paths with the ones stored in the payload. When
+  // false, the canvas must already hold that content (e.g. restored with
+  // setPaths) or the import fails.
+  restorePaths?: boolean;
+}
+
+// Fields that are left out fall back to the canvas' current text settings
+export type NewTextElement = Pick<TextElement, "text" | "x" | "y"> &
+  Partial<Omit<TextElement, "text" | "x" | "y">>;
+
+export interface SetPathsOptions {
+  recordHistory?: boolean;
+}
+
 export interface PerfectCanvasRef {
-  undo: (steps?: number) => void;
-  redo: (steps?: number) => void;
+  undo: (steps?: number) => boolean;
+  redo: (steps?: number) => boolean;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  getHistoryLength: () => number;
+  getHistory: () => HistoryEntry[];
+  jumpTo: (nodeId: string | null) => boolean;
+  exportHistory: (options?: HistoryExportOptions) => SerializedHistory;
+  importHistory: (
+    data: SerializedHistory,
+    options?: HistoryImportOptions
+  ) => boolean;
   clear: () => void;
   reset: () => void;
   resetZoom: () => void;
@@ -56,26 +509,111 @@ export interface PerfectCanvasRef {
     format?: ImageFormat,
     quality?: number
   ) => Promise<string | undefined>;
-  toSvg: (width?: number, height?: number, backgroundColor?: string) => string;
+  toSvg: (
+    width?: number,
+    height?: number,
+    backgroundColor?: string,
+    options?: SvgExportOptions
+  ) => string;
+  // Plays the drawing back stroke by stroke in place of the content until it
+  // completes or is stopped. Drawing is disabled meanwhile.
+  replay: (options?: ReplayOptions) => ReplayController;
+  toPdf: {
+    (options?: PdfExportOptions & { output?: "base64" }): string;
+    (options: PdfExportOptions & { output: "bytes" }): Uint8Array;
+  };
   getPaths: () => PathData[];
-  setPaths: (paths: PathData[]) => void;
+  // Paths whose bounds overlap the rect, in drawing order. Coordinates are
+  // in canvas space, unaffected by zoom.
+  queryPaths: (rect: CanvasRect) => PathData[];
+  // Topmost path on a visible layer whose outline is within tolerance of
+  // the point, or null
+  hitTest: (x: number, y: number, tolerance?: number) => PathData | null;
+  importSvg: (svg: string, options?: SvgImportOptions) => boolean;
+  // Returns false, leaving the drawing untouched, when the paths are invalid
+  setPaths: (paths: PathData[], options?: SetPathsOptions) => boolean;
+  exportDocument: (options?: DocumentExportOptions) => CanvasDocument;
+  // Accepts a document object or its JSON, from any supported version
+  importDocument: (
+    document: CanvasDocument | string,
+    options?: DocumentImportOptions
+  ) => boolean;
+  // Compact encoding of the paths for syncing and storage
+  toBinary: (options?: BinaryEncodeOptions) => Uint8Array;
+  // Replaces the paths with ones from toBinary
+  fromBinary: (data: Uint8Array, options?: SetPathsOptions) => boolean;
+  getTexts: () => TextElement[];
+  setTexts: (texts: TextElement[], options?: SetPathsOptions) => void;
+  addText: (text: NewTextElement) => TextElement;
+  updateText: (
+    id: string,
+    changes: Partial<Omit<TextElement, "id">>
+  ) => boolean;
+  removeText: (id: string) => boolean;
+  getLayers: () => Layer[];
+  getPathsByLayer: () => LayerContent[];
+  addLayer: (name?: string) => Layer;
+  removeLayer: (id: string) => boolean;
+  updateLayer: (id: string, changes: Partial<Omit<Layer, "id">>) => boolean;
+  moveLayer: (id: string, index: number) => boolean;
+  getActiveLayer: () => string;
+  setActiveLayer: (id: string) => boolean;
   setStrokeColor: (color: string) => void;
   setStrokeWidth: (width: number) => void;
   setStrokeOpacity: (opacity: number) => void;
+  setBlendMode: (mode: StrokeBlendMode) => void;
+  setHighlighterColor: (color: string) => void;
+  setHighlighterWidth: (width: number) => void;
   setBackgroundColor: (color: string) => void;
+  setBackgroundImage: (image: BackgroundImageSource | null) => void;
+  setBackgroundImageFit: (fit: BackgroundImageFit) => void;
+  setPaper: (paper: PaperOptions | null) => void;
+  setSnapMode: (mode: SnapMode) => void;
   setEnableHaptics: (enabled: boolean) => void;
   setHapticStyle: (style: HapticStyle) => void;
+  setTool: (tool: DrawingTool) => void;
+  getTool: () => DrawingTool;
+  setEraserSize: (size: number) => void;
+  setEraserMode: (mode: EraserMode) => void;
+  getSelection: () => string[];
+  setSelection: (ids: string[]) => void;
+  setSelectionMode: (mode: SelectionMode) => void;
+  setShapeType: (type: ShapeType) => void;
+  setShapeRenderMode: (mode: ShapeRenderMode) => void;
+  setFontSize: (size: number) => void;
   getDrawingState: () => DrawingState;
   isDrawing: () => boolean;
 }
 
+// Plays back a drawing, from a document or from paths. Text appears once
+// all strokes are drawn. The ref exposes the ReplayController methods.
+export interface PerfectCanvasReplayProps extends ReplayOptions {
+  document?: CanvasDocument;
+  paths?: PathData[];
+  texts?: TextElement[];
+  layers?: Layer[];
+  style?: ViewStyle;
+  backgroundColor?: string;
+  autoPlay?: boolean;
+}
+
 export interface PerfectCanvasProps {
   style?: ViewStyle;
   backgroundColor?: string;
+  backgroundImage?: BackgroundImageSource;
+  backgroundImageFit?: BackgroundImageFit;
+  // Frame in world coordinates; defaults to the canvas bounds at zoom 1
+  backgroundImageRect?: CanvasRect;
+  paper?: PaperOptions;
+  snapMode?: SnapMode;
   strokeColor?: string | SharedValue<string>;
   strokeWidth?: number | SharedValue<number>;
   strokeOpacity?: number | SharedValue<number>;
   strokeOptions?: StrokeOptions;
+  blendMode?: StrokeBlendMode;
+  highlighterColor?: string;
+  highlighterWidth?: number;
+  highlighterOpacity?: number;
   enableHaptics?: boolean;
   hapticStyle?: HapticStyle;
   enableZoom?: boolean;
@@ -86,11 +624,43 @@ export interface PerfectCanvasProps {
   simplifyPaths?: boolean;
   simplifyTolerance?: number;
   renderMode?: RenderMode;
+  tool?: DrawingTool;
+  eraserSize?: number;
+  eraserMode?: EraserMode;
+  selectionMode?: SelectionMode;
+  shapeType?: ShapeType;
+  shapeRenderMode?: ShapeRenderMode;
+  polygonSides?: number;
+  enableShapeRecognition?: boolean;
+  shapeRecognitionDelay?: number;
+  shapeRecognitionThreshold?: number;
+  fontSize?: number;
+  fontFamily?: string;
+  // Content of text created by tapping with the text tool
+  textPlaceholder?: string;
+  // Shares strokes with other canvases through the adapter. Remote changes
+  // are not added to the local undo history.
+  collaboration?: CollaborationAdapter;
+  collaborationUser?: CollaborationUser;
+  showRemoteCursors?: boolean;
   onDrawStart?: (point?: Point) => void;
   onDrawUpdate?: (point: Point) => void;
   onDrawEnd?: (path: PathData) => void;
   onPathComplete?: (path: PathData) => void;
+  onPathsErased?: (ids: string[]) => void;
+  onSelectionChange?: (ids: string[]) => void;
+  onShapeRecognized?: (result: RecognizedShape, path: PathData) => void;
+  onTextCreate?: (text: TextElement) => void;
+  // Tapping existing text with the text tool, e.g. to open an editor
+  onTextPress?: (text: TextElement) => void;
+  onLayersChange?: (layers: Layer[]) => void;
+  onActiveLayerChange?: (id: string) => void;
+  // Fires when content, pen style, the active layer or the stroke being
+  // drawn changes
   onStateChange?: (state: DrawingState) => void;
+  // One patch per change, with the content after it
+  onChange?: (patch: CanvasPatch, content: CanvasContent) => void;
+  onHistoryChange?: (event: HistoryChangeEvent) => void;
   onZoomChange?: (scale: number) => void;
   onTranslateChange?: (x: number, y: number) => void;
   onRotationChange?: (rotation: number) => void;
@@ -0,0 +1,362 @@
+import type {
+  BinaryEncodeOptions,
+  PathData,
+  Point,
+  ShapeData,
+  StrokeBlendMode,
+  StrokeOptions,
+} from "../types";
+import { regenerateSvgPath } from "./shapes";
+
+// Layout, all integers as LEB128 varints (signed ones zigzag encoded):
+//
+//   "PCB" | version u8 | precision u8 | path count
+//   per path:
+//     flags | id | color | width
+//     opacity        (flag 1, thousandths)
+//     blendMode      (flag 2)
+//     layerId        (flag 64)
+//     strokeOptions  (flag 128, JSON)
+//     shape          (flag 256, JSON)
+//     svgPath        (flag 512, fromSvg paths only)
+//     point count | x, y deltas (pressure delta in thousandths, flag 16)
+//     timestamp count | first ms | ms deltas (flag 32)
+//
+// Strings are a byte length followed by UTF-8. Coordinates and widths are
+// multiplied by 10^precision and rounded. Versions only ever add to this.
+export const BINARY_FORMAT_VERSION = 1;
+export const DEFAULT_BINARY_PRECISION = 2;
+
+const MAGIC = [0x50, 0x43, 0x42]; // "PCB"
+const MAX_PRECISION = 6;
+const PRESSURE_SCALE = 1000;
+const OPACITY_SCALE = 1000;
+
+const FLAGS = {
+  opacity: 1,
+  blendMode: 2,
+  highlighter: 4,
+  strokeStyle: 8,
+  pressure: 16,
+  timestamps: 32,
+  layerId: 64,
+  strokeOptions: 128,
+  shape: 256,
+  fromSvg: 512,
+  completed: 1024,
+};
+
+function encodeUtf8(value: string): number[] {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  let result = "";
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    const extra = byte >= 0xf0 ? 3 : byte >= 0xe0 ? 2 : byte >= 0xc0 ? 1 : 0;
+    let code = extra === 0 ? byte : byte & (0x3f >> extra);
+    for (let k = 0; k < extra; k++) {
+      code = (code << 6) | ((bytes[i++] ?? 0) & 0x3f);
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  // Arithmetic rather than bit shifts so values past 2^32 (epoch ms) fit
+  uint(value: number): void {
+    let rest = Math.max(0, Math.round(value));
+    while (rest >= 0x80) {
+      this.bytes.push(rest % 0x80 | 0x80);
+      rest = Math.floor(rest / 0x80);
+    }
+    this.bytes.push(rest);
+  }
+
+  int(value: number): void {
+    const rounded = Math.round(value);
+    this.uint(rounded >= 0 ? rounded * 2 : -rounded * 2 - 1);
+  }
+
+  string(value: string): void {
+    const encoded = encodeUtf8(value);
+    this.uint(encoded.length);
+    for (const byte of encoded) this.bytes.push(byte);
+  }
+
+  toBytes(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  private ensure(length: number): void {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("Unexpected end of binary data");
+    }
+  }
+
+  byte(): number {
+    this.ensure(1);
+    return this.bytes[this.offset++];
+  }
+
+  uint(): number {
+    let result = 0;
+    let factor = 1;
+    for (;;) {
+      const byte = this.byte();
+      result += (byte & 0x7f) * factor;
+      if (byte < 0x80) return result;
+      factor *= 0x80;
+      if (factor > Number.MAX_SAFE_INTEGER) {
+        throw new Error("Invalid varint in binary data");
+      }
+    }
+  }
+
+  int(): number {
+    const value = this.uint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  string(): string {
+    const length = this.uint();
+    this.ensure(length);
+    const value = decodeUtf8(
+      this.bytes.subarray(this.offset, this.offset + length)
+    );
+    this.offset += length;
+    return value;
+  }
+
+  json<T>(): T {
+    const value = this.string();
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      throw new Error("Invalid JSON field in binary data");
+    }
+  }
+}
+
+// Packs paths into the compact binary format. Only points and style are
+// stored; svgPath is rebuilt on decode, except for imported SVG geometry.
+// Pressure is kept when every point of a path has it. Easing functions in
+// strokeOptions are dropped.
+export function encodePaths(
+  paths: PathData[],
+  options: BinaryEncodeOptions = {}
+): Uint8Array {
+  const { precision = DEFAULT_BINARY_PRECISION } = options;
+  if (
+    !Number.isInteger(precision) ||
+    precision < 0 ||
+    precision > MAX_PRECISION
+  ) {
+    throw new Error(
+      `precision must be an integer from 0 to ${MAX_PRECISION}, got ${precision}`
+    );
+  }
+  const scale = 10 ** precision;
+  const writer = new ByteWriter();
+
+  MAGIC.forEach((byte): void => writer.byte(byte));
+  writer.byte(BINARY_FORMAT_VERSION);
+  writer.byte(precision);
+  writer.uint(paths.length);
+
+  for (const path of paths) {
+    const hasPressure =
+      path.points.length > 0 &&
+      path.points.every((point): boolean => point[2] !== undefined);
+    const timestamps = path.timestamps ?? [];
+
+    let flags = 0;
+    if (path.opacity !== undefined) flags |= FLAGS.opacity;
+    if (path.blendMode) flags |= FLAGS.blendMode;
+    if (path.highlighter) flags |= FLAGS.highlighter;
+    if (path.renderStyle === "stroke") flags |= FLAGS.strokeStyle;
+    if (hasPressure) flags |= FLAGS.pressure;
+    if (timestamps.length > 0) flags |= FLAGS.timestamps;
+    if (path.layerId !== undefined) flags |= FLAGS.layerId;
+    if (path.strokeOptions) flags |= FLAGS.strokeOptions;
+    if (path.shape) flags |= FLAGS.shape;
+    if (path.fromSvg) flags |= FLAGS.fromSvg;
+    if (path.completed) flags |= FLAGS.completed;
+
+    writer.uint(flags);
+    writer.string(path.id);
+    writer.string(path.color);
+    writer.uint(path.width * scale);
+    if (path.opacity !== undefined) writer.uint(path.opacity * OPACITY_SCALE);
+    if (path.blendMode) writer.string(path.blendMode);
+    if (path.layerId !== undefined) writer.string(path.layerId);
+    if (path.strokeOptions) writer.string(JSON.stringify(path.strokeOptions));
+    if (path.shape) writer.string(JSON.stringify(path.shape));
+    if (path.fromSvg) writer.string(path.svgPath);
+
+    // Deltas between quantized values so rounding doesn't accumulate
+    writer.uint(path.points.length);
+    let x = 0;
+    let y = 0;
+    let pressure = 0;
+    for (const point of path.points) {
+      const qx = Math.round(point[0] * scale);
+      const qy = Math.round(point[1] * scale);
+      writer.int(qx - x);
+      writer.int(qy - y);
+      x = qx;
+      y = qy;
+      if (hasPressure) {
+        const qp = Math.round((point[2] ?? 0) * PRESSURE_SCALE);
+        writer.int(qp - pressure);
+        pressure = qp;
+      }
+    }
+
+    if (timestamps.length > 0) {
+      writer.uint(timestamps.length);
+      let time = 0;
+      for (const timestamp of timestamps) {
+        const qt = Math.round(timestamp);
+        writer.int(qt - time);
+        time = qt;
+      }
+    }
+  }
+
+  return writer.toBytes();
+}
+
+// Unpacks paths written by encodePaths, regenerating their svgPath
+export function decodePaths(bytes: Uint8Array): PathData[] {
+  const reader = new ByteReader(bytes);
+  if (MAGIC.some((byte): boolean => reader.byte() !== byte)) {
+    throw new Error("Not a perfect-canvas binary document");
+  }
+  const version = reader.byte();
+  if (version > BINARY_FORMAT_VERSION) {
+    throw new Error(
+      `Binary format version ${version} is newer than supported (${BINARY_FORMAT_VERSION})`
+    );
+  }
+  const precision = reader.byte();
+  if (precision > MAX_PRECISION) {
+    throw new Error(`Invalid precision ${precision} in binary data`);
+  }
+  const scale = 10 ** precision;
+  const count = reader.uint();
+  const paths: PathData[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const flags = reader.uint();
+    const has = (flag: number): boolean => (flags & flag) !== 0;
+
+    const id = reader.string();
+    const color = reader.string();
+    const width = reader.uint() / scale;
+    const opacity = has(FLAGS.opacity)
+      ? reader.uint() / OPACITY_SCALE
+      : undefined;
+    const blendMode = has(FLAGS.blendMode)
+      ? (reader.string() as StrokeBlendMode)
+      : undefined;
+    const layerId = has(FLAGS.layerId) ? reader.string() : undefined;
+    const strokeOptions = has(FLAGS.strokeOptions)
+      ? reader.json<StrokeOptions>()
+      : undefined;
+    const shape = has(FLAGS.shape) ? reader.json<ShapeData>() : undefined;
+    const svgPath = has(FLAGS.fromSvg) ? reader.string() : undefined;
+
+    const points: Point[] = [];
+    const pointCount = reader.uint();
+    let x = 0;
+    let y = 0;
+    let pressure = 0;
+    for (let p = 0; p < pointCount; p++) {
+      x += reader.int();
+      y += reader.int();
+      if (has(FLAGS.pressure)) {
+        pressure += reader.int();
+        points.push([x / scale, y / scale, pressure / PRESSURE_SCALE]);
+      } else {
+        points.push([x / scale, y / scale]);
+      }
+    }
+
+    let timestamps: number[] | undefined;
+    if (has(FLAGS.timestamps)) {
+      timestamps = [];
+      const timestampCount = reader.uint();
+      let time = 0;
+      for (let t = 0; t < timestampCount; t++) {
+        time += reader.int();
+        timestamps.push(time);
+      }
+    }
+
+    const path: PathData = {
+      id,
+      points,
+      svgPath: svgPath ?? "",
+      color,
+      width,
+      ...(opacity !== undefined ? { opacity } : {}),
+      ...(blendMode ? { blendMode } : {}),
+      ...(has(FLAGS.highlighter) ? { highlighter: true } : {}),
+      ...(strokeOptions ? { strokeOptions } : {}),
+      ...(has(FLAGS.strokeStyle) ? { renderStyle: "stroke" as const } : {}),
+      ...(shape ? { shape } : {}),
+      ...(svgPath !== undefined ? { fromSvg: true } : {}),
+      ...(layerId !== undefined ? { layerId } : {}),
+      ...(timestamps ? { timestamps } : {}),
+      completed: has(FLAGS.completed),
+    };
+    paths.push(
+      svgPath !== undefined
+        ? path
+        : { ...path, svgPath: regenerateSvgPath(path) }
+    );
+  }
+
+  return paths;
+}
@@ -0,0 +1,234 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CollaborationMessage, CollaborationOp, PathData } from "../types";
+import { createLoopbackHub, OperationLog } from "./collaboration";
+
+function createPath(id: string, color: string = "#000000"): PathData {
+  return {
+    id,
+    points: [
+      [0, 0],
+      [10, 10],
+    ],
+    svgPath: "M 0 0 L 10 10",
+    color,
+    width: 4,
+    opacity: 1,
+    completed: true,
+  };
+}
+
+function getIds(log: OperationLog): string[] {
+  return log.getPaths().map((path): string => path.id);
+}
+
+// Each rotation of the ops, and the ops in reverse
+function getOrders(ops: CollaborationOp[]): CollaborationOp[][] {
+  const orders = ops.map((_, i): CollaborationOp[] => [
+    ...ops.slice(i),
+    ...ops.slice(0, i),
+  ]);
+  return [...orders, [...ops].reverse()];
+}
+
+describe("OperationLog", (): void => {
+  // Two clients start from a shared drawing, then edit it without seeing
+  // each other's changes
+  const diverge = (): {
+    alice: OperationLog;
+    bob: OperationLog;
+    aliceOps: CollaborationOp[];
+    bobOps: CollaborationOp[];
+  } => {
+    const alice = new OperationLog("alice");
+    const bob = new OperationLog("bob");
+    const shared = [createPath("a"), createPath("b"), createPath("c")];
+    bob.apply(alice.commit([], shared));
+
+    const aliceOps = alice.commit(shared, [
+      shared[0],
+      { ...shared[1], color: "#ff0000" },
+      shared[2],
+      createPath("d"),
+    ]);
+    const bobOps = bob.commit(shared, [
+      { ...shared[0], color: "#00ff00" },
+      shared[2],
+      createPath("e"),
+    ]);
+    return { alice, bob, aliceOps, bobOps };
+  };
+
+  it("converges whatever order the ops arrive in", (): void => {
+    const { alice, bob, aliceOps, bobOps } = diverge();
+    const ops = [...alice.getOps(), ...bobOps];
+
+    alice.apply(bobOps);
+    bob.apply(aliceOps);
+    expect(alice.getPaths()).toEqual(bob.getPaths());
+    expect(getIds(alice)).toEqual(["a", "c", "d", "e"]);
+
+    for (const order of getOrders(ops)) {
+      const log = new OperationLog("carol");
+      order.forEach((op): void => {
+        log.apply([op]);
+      });
+      expect(log.getPaths()).toEqual(alice.getPaths());
+    }
+  });
+
+  it("ignores ops it has already applied", (): void => {
+    const { alice, bobOps } = diverge();
+
+    expect(alice.apply(bobOps)).toBe(true);
+    const paths = alice.getPaths();
+    const ops = alice.getOps();
+
+    expect(alice.apply(bobOps)).toBe(false);
+    expect(alice.apply(ops)).toBe(false);
+    expect(alice.getPaths()).toEqual(paths);
+    expect(alice.getOps()).toEqual(ops);
+  });
+
+  it("resolves a remove and an update the same way on every client", (): void => {
+    const alice = new OperationLog("alice");
+    const bob = new OperationLog("bob");
+    const path = createPath("a");
+    bob.apply(alice.commit([], [path]));
+
+    // Same clock on both sides, so the client id decides
+    const removeOps = alice.commit([path], []);
+    const updateOps = bob.commit([path], [{ ...path, color: "#ff0000" }]);
+    expect(removeOps[0].clock).toBe(updateOps[0].clock);
+
+    alice.apply(updateOps);
+    bob.apply(removeOps);
+    expect(alice.getPaths()).toEqual(bob.getPaths());
+    expect(alice.getPaths()).toEqual([{ ...path, color: "#ff0000" }]);
+
+    // A later remove wins over the update everywhere
+    const laterOps = alice.commit(alice.getPaths(), []);
+    bob.apply(laterOps);
+    expect(getIds(alice)).toEqual([]);
+    expect(getIds(bob)).toEqual([]);
+  });
+
+  it("resolves concurrent updates the same way on every client", (): void => {
+    const alice = new OperationLog("alice");
+    const bob = new OperationLog("bob");
+    const path = createPath("a");
+    bob.apply(alice.commit([], [path]));
+
+    const aliceOps = alice.commit([path], [{ ...path, color: "#ff0000" }]);
+    const bobOps = bob.commit([path], [{ ...path, color: "#00ff00" }]);
+    alice.apply(bobOps);
+    bob.apply(aliceOps);
+
+    expect(alice.getPaths()).toEqual(bob.getPaths());
+    expect(alice.getPaths()[0].color).toBe("#00ff00");
+  });
+
+  it("stacks paths by when they were first created", (): void => {
+    const alice = new OperationLog("alice");
+    const bob = new OperationLog("bob");
+    const paths = [createPath("a"), createPath("b"), createPath("c")];
+    bob.apply(alice.commit([], paths));
+
+    // Erasing splits b in place, the fragments are new paths
+    const erased = [paths[0], createPath("b1"), createPath("b2"), paths[2]];
+    bob.apply(alice.commit(paths, erased));
+
+    expect(getIds(alice)).toEqual(["a", "c", "b1", "b2"]);
+    expect(getIds(bob)).toEqual(getIds(alice));
+
+    // Bringing a path back puts it in its original place
+    bob.apply(alice.commit(alice.getPaths(), [paths[1], ...alice.getPaths()]));
+    expect(getIds(alice)).toEqual(["a", "b", "c", "b1", "b2"]);
+    expect(getIds(bob)).toEqual(getIds(alice));
+  });
+
+  it("brings a new client up to date from getOps", (): void => {
+    const { alice, bobOps } = diverge();
+    alice.apply(bobOps);
+
+    const carol = new OperationLog("carol");
+    carol.apply(alice.getOps());
+    expect(carol.getPaths()).toEqual(alice.getPaths());
+    expect(carol.getClock()).toBe(alice.getClock());
+  });
+});
+
+describe("createLoopbackHub", (): void => {
+  // A client that shares every commit and merges what it receives
+  const join = (
+    hub: ReturnType<typeof createLoopbackHub>,
+    clientId: string
+  ): {
+    log: OperationLog;
+    commit: (after: PathData[]) => void;
+    received: CollaborationMessage[];
+  } => {
+    const adapter = hub.connect();
+    const log = new OperationLog(clientId);
+    const received: CollaborationMessage[] = [];
+    adapter.subscribe((message): void => {
+      received.push(message);
+      if (message.type === "ops") log.apply(message.ops);
+    });
+    const commit = (after: PathData[]): void => {
+      adapter.send({ type: "ops", ops: log.commit(log.getPaths(), after) });
+    };
+    return { log, commit, received };
+  };
+
+  it("delivers copies to every other client", (): void => {
+    const hub = createLoopbackHub();
+    const alice = join(hub, "alice");
+    const bob = join(hub, "bob");
+    const carol = join(hub, "carol");
+
+    const path = createPath("a");
+    alice.commit([path]);
+
+    expect(alice.received).toEqual([]);
+    expect(bob.received).toHaveLength(1);
+    expect(carol.received).toHaveLength(1);
+    expect(bob.log.getPaths()).toEqual([path]);
+    expect(bob.log.getPaths()[0]).not.toBe(path);
+    expect(carol.log.getPaths()).toEqual([path]);
+  });
+
+  it("converges when messages cross with latency", (): void => {
+    vi.useFakeTimers();
+    try {
+      const hub = createLoopbackHub({ latency: 20 });
+      const alice = join(hub, "alice");
+      const bob = join(hub, "bob");
+
+      alice.commit([createPath("a")]);
+      bob.commit([createPath("b")]);
+      alice.commit([...alice.log.getPaths(), createPath("c")]);
+      expect(getIds(alice.log)).toEqual(["a", "c"]);
+      expect(getIds(bob.log)).toEqual(["b"]);
+
+      vi.advanceTimersByTime(20);
+      expect(getIds(alice.log)).toEqual(getIds(bob.log));
+      expect(alice.log.getPaths()).toEqual(bob.log.getPaths());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("stops delivering after unsubscribing", (): void => {
+    const hub = createLoopbackHub();
+    const sender = hub.connect();
+    const receiver = hub.connect();
+    const listener = vi.fn();
+    const unsubscribe = receiver.subscribe(listener);
+
+    sender.send({ type: "leave", clientId: "alice" });
+    unsubscribe();
+    sender.send({ type: "leave", clientId: "alice" });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
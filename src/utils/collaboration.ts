@@ -0,0 +1,165 @@
+import type {
+  CollaborationAdapter,
+  CollaborationMessage,
+  CollaborationOp,
+  PathData,
+} from "../types";
+import { generateId } from "./path";
+
+interface LogEntry {
+  // Newest op decides whether and how the path is shown
+  latest: CollaborationOp;
+  // Oldest add or update, which fixes the path's place in the stacking
+  // order. Null while only a remove has arrived.
+  created: CollaborationOp | null;
+}
+
+// Total order of ops: Lamport clock, ties broken by client id
+export function compareOps(
+  a: Pick<CollaborationOp, "clock" | "clientId">,
+  b: Pick<CollaborationOp, "clock" | "clientId">
+): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+// Replicated set of paths. Each path takes the state from its newest op
+// (last writer wins) and keeps its place in the stacking order from the op
+// that first created it, so clients that have seen the same ops show the
+// same drawing whatever order the ops arrived in. Applying an op twice is
+// harmless.
+export class OperationLog {
+  readonly clientId: string;
+  private clock = 0;
+  private entries = new Map<string, LogEntry>();
+
+  constructor(clientId: string = generateId()) {
+    this.clientId = clientId;
+  }
+
+  getClock(): number {
+    return this.clock;
+  }
+
+  // Records a local change from one list of paths to another as ops and
+  // applies them. Paths are immutable, so a new object under an existing id
+  // is an update.
+  commit(before: PathData[], after: PathData[]): CollaborationOp[] {
+    const previous = new Map(
+      before.map((path): [string, PathData] => [path.id, path])
+    );
+    const kept = new Set<string>();
+    const ops: CollaborationOp[] = [];
+    const stamp = (pathId: string): Omit<CollaborationOp, "type"> => ({
+      clientId: this.clientId,
+      clock: ++this.clock,
+      pathId,
+    });
+
+    for (const path of after) {
+      kept.add(path.id);
+      const old = previous.get(path.id);
+      if (old === path) continue;
+      ops.push({ ...stamp(path.id), type: old ? "update" : "add", path });
+    }
+    for (const path of before) {
+      if (!kept.has(path.id)) ops.push({ ...stamp(path.id), type: "remove" });
+    }
+
+    this.apply(ops);
+    return ops;
+  }
+
+  // Merges ops from any client. Returns whether the visible paths changed.
+  apply(ops: CollaborationOp[]): boolean {
+    let changed = false;
+
+    for (const op of ops) {
+      this.clock = Math.max(this.clock, op.clock);
+      const creates = op.type !== "remove";
+      const entry = this.entries.get(op.pathId);
+      if (!entry) {
+        this.entries.set(op.pathId, {
+          latest: op,
+          created: creates ? op : null,
+        });
+        if (creates) changed = true;
+        continue;
+      }
+
+      const visible = entry.latest.type !== "remove";
+      if (creates && (!entry.created || compareOps(op, entry.created) < 0)) {
+        entry.created = op;
+        if (visible) changed = true;
+      }
+      if (compareOps(op, entry.latest) > 0) {
+        entry.latest = op;
+        if (visible || creates) changed = true;
+      }
+    }
+
+    return changed;
+  }
+
+  // Visible paths in stacking order
+  getPaths(): PathData[] {
+    const shown: { path: PathData; created: CollaborationOp }[] = [];
+    for (const { latest, created } of this.entries.values()) {
+      if (latest.type !== "remove" && created) {
+        shown.push({ path: latest.path, created });
+      }
+    }
+    return shown
+      .sort((a, b): number => compareOps(a.created, b.created))
+      .map(({ path }): PathData => path);
+  }
+
+  // Smallest set of ops that rebuilds this state, for bringing a new client
+  // up to date. Superseded ops change nothing once these are applied.
+  getOps(): CollaborationOp[] {
+    const ops: CollaborationOp[] = [];
+    for (const { latest, created } of this.entries.values()) {
+      if (created && created !== latest) ops.push(created);
+      ops.push(latest);
+    }
+    return ops.sort(compareOps);
+  }
+}
+
+// In-memory transport between adapters in the same process, for tests and
+// demos. Messages are copied through JSON as they would be over a network
+// and delivered to every other connected adapter, synchronously unless a
+// latency (ms) is given.
+export function createLoopbackHub(options: { latency?: number } = {}): {
+  connect: () => CollaborationAdapter;
+} {
+  const { latency } = options;
+  type Listener = (message: CollaborationMessage) => void;
+  const adapters = new Set<Set<Listener>>();
+
+  return {
+    connect: (): CollaborationAdapter => {
+      const listeners = new Set<Listener>();
+      adapters.add(listeners);
+
+      return {
+        send: (message: CollaborationMessage): void => {
+          const data = JSON.stringify(message);
+          for (const other of adapters) {
+            if (other === listeners) continue;
+            const deliver = (): void =>
+              other.forEach((listener): void => listener(JSON.parse(data)));
+            if (latency === undefined) deliver();
+            else setTimeout(deliver, latency);
+          }
+        },
+        subscribe: (listener: Listener): (() => void) => {
+          listeners.add(listener);
+          return (): void => {
+            listeners.delete(listener);
+          };
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,433 @@
+import type {
+  CanvasDocument,
+  DocumentValidationError,
+  PathData,
+  StrokeOptions,
+} from "../types";
+import { createDefaultLayers } from "./layers";
+import { STROKE_BLEND_MODES } from "./svg";
+
+// Version 0 is the bare content apps stored from getPaths before documents
+// existed: a PathData[] or an object with paths (and texts/layers)
+export const DOCUMENT_FORMAT_VERSION = 1;
+
+type UnknownRecord = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: ((document: UnknownRecord) => UnknownRecord)[] = [
+  (document): UnknownRecord => ({
+    version: 1,
+    canvas: { width: 0, height: 0 },
+    background: { color: "white" },
+    viewport: { scale: 1, translateX: 0, translateY: 0 },
+    stroke: { color: "black", width: 8, opacity: 1, options: {} },
+    paths: document.paths ?? [],
+    texts: document.texts ?? [],
+    layers: document.layers ?? createDefaultLayers(),
+    metadata: {},
+  }),
+];
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// easing is a function, which neither JSON nor the validator accept
+function getSerializableStrokeOptions(options: StrokeOptions): StrokeOptions {
+  const serializable = { ...options };
+  delete serializable.easing;
+  return serializable;
+}
+
+// Stamps the current version on the document and strips what can't be
+// serialized
+export function createDocument(
+  content: Omit<CanvasDocument, "version">
+): CanvasDocument {
+  return {
+    version: DOCUMENT_FORMAT_VERSION,
+    ...content,
+    stroke: {
+      ...content.stroke,
+      options: getSerializableStrokeOptions(content.stroke.options),
+    },
+    paths: content.paths.map(
+      (path): PathData =>
+        path.strokeOptions
+          ? {
+              ...path,
+              strokeOptions: getSerializableStrokeOptions(path.strokeOptions),
+            }
+          : path
+    ),
+  };
+}
+
+// Brings a document of any supported version up to DOCUMENT_FORMAT_VERSION.
+// The result still needs validating.
+export function migrateDocument(input: unknown): unknown {
+  let document: UnknownRecord;
+  if (Array.isArray(input)) {
+    document = { version: 0, paths: input };
+  } else if (isRecord(input)) {
+    document =
+      input.version === undefined && "paths" in input
+        ? { ...input, version: 0 }
+        : input;
+  } else {
+    throw new Error("Invalid document: expected an object");
+  }
+
+  let version = document.version;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    throw new Error(`Unsupported document version: ${String(version)}`);
+  }
+  if (version > DOCUMENT_FORMAT_VERSION) {
+    throw new Error(
+      `Document version ${version} is newer than the supported version ${DOCUMENT_FORMAT_VERSION}`
+    );
+  }
+
+  while (version < DOCUMENT_FORMAT_VERSION) {
+    document = MIGRATIONS[version](document);
+    version++;
+  }
+  return document;
+}
+
+// Collects errors while walking a value. Each check reports at most one error
+// for its path; container checks return whether to look inside.
+class Validator {
+  errors: DocumentValidationError[] = [];
+
+  fail(path: string, message: string): false {
+    this.errors.push({ path, message });
+    return false;
+  }
+
+  present(value: unknown, path: string, optional: boolean): boolean {
+    if (value === undefined && !optional) return this.fail(path, "is required");
+    return value !== undefined;
+  }
+
+  record(value: unknown, path: string, optional = false): boolean {
+    if (!this.present(value, path, optional)) return false;
+    return isRecord(value) || this.fail(path, "expected an object");
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!this.present(value, path, false)) return false;
+    return Array.isArray(value) || this.fail(path, "expected an array");
+  }
+
+  string(value: unknown, path: string, optional = false): void {
+    if (!this.present(value, path, optional)) return;
+    if (typeof value !== "string") this.fail(path, "expected a string");
+  }
+
+  boolean(value: unknown, path: string, optional = false): void {
+    if (!this.present(value, path, optional)) return;
+    if (typeof value !== "boolean") this.fail(path, "expected a boolean");
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    options: {
+      optional?: boolean;
+      min?: number;
+      max?: number;
+      positive?: boolean;
+    } = {}
+  ): void {
+    const { optional = false, min, max, positive = false } = options;
+    if (!this.present(value, path, optional)) return;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.fail(path, "expected a finite number");
+    } else if (positive && value <= 0) {
+      this.fail(path, `must be greater than 0, got ${value}`);
+    } else if (min !== undefined && value < min) {
+      this.fail(path, `must be at least ${min}, got ${value}`);
+    } else if (max !== undefined && value > max) {
+      this.fail(path, `must be at most ${max}, got ${value}`);
+    }
+  }
+
+  oneOf(
+    value: unknown,
+    path: string,
+    values: readonly string[],
+    optional = false
+  ): void {
+    if (!this.present(value, path, optional)) return;
+    if (typeof value !== "string" || !values.includes(value)) {
+      this.fail(
+        path,
+        `expected one of ${values.map((v): string => `"${v}"`).join(", ")}`
+      );
+    }
+  }
+
+  point(value: unknown, path: string): void {
+    if (
+      !Array.isArray(value) ||
+      value.length < 2 ||
+      value.length > 3 ||
+      !value.every((n): boolean => typeof n === "number" && Number.isFinite(n))
+    ) {
+      this.fail(path, "expected [x, y] or [x, y, pressure] finite numbers");
+    }
+  }
+
+  uniqueIds(items: unknown[], path: string): void {
+    const seen = new Set<unknown>();
+    items.forEach((item, i): void => {
+      if (!isRecord(item) || typeof item.id !== "string") return;
+      if (seen.has(item.id))
+        this.fail(`${path}[${i}].id`, `duplicate id "${item.id}"`);
+      seen.add(item.id);
+    });
+  }
+}
+
+function validateStrokeOptions(
+  v: Validator,
+  value: unknown,
+  path: string,
+  optional: boolean
+): void {
+  if (!v.record(value, path, optional)) return;
+  const options = value as UnknownRecord;
+  for (const key of ["size", "thinning", "smoothing", "streamline"]) {
+    v.number(options[key], `${path}.${key}`, { optional: true });
+  }
+  if (options.easing !== undefined && typeof options.easing !== "function") {
+    v.fail(`${path}.easing`, "expected a function");
+  }
+  for (const key of ["start", "end"]) {
+    if (!v.record(options[key], `${path}.${key}`, true)) continue;
+    const cap = options[key] as UnknownRecord;
+    v.number(cap.taper, `${path}.${key}.taper`, { optional: true });
+    v.boolean(cap.cap, `${path}.${key}.cap`, true);
+  }
+}
+
+function validateShape(v: Validator, value: unknown, path: string): void {
+  if (!v.record(value, path, true)) return;
+  const shape = value as UnknownRecord;
+  v.oneOf(shape.type, `${path}.type`, [
+    "line",
+    "rectangle",
+    "ellipse",
+    "arrow",
+    "polygon",
+  ]);
+  v.point(shape.start, `${path}.start`);
+  v.point(shape.end, `${path}.end`);
+  v.number(shape.rotation, `${path}.rotation`, { optional: true });
+  v.number(shape.sides, `${path}.sides`, { optional: true, min: 3 });
+  if (
+    shape.vertices !== undefined &&
+    v.array(shape.vertices, `${path}.vertices`)
+  ) {
+    shape.vertices.forEach((point, i): void =>
+      v.point(point, `${path}.vertices[${i}]`)
+    );
+  }
+}
+
+function validatePath(v: Validator, value: unknown, path: string): void {
+  if (!v.record(value, path)) return;
+  const data = value as UnknownRecord;
+  v.string(data.id, `${path}.id`);
+  if (v.array(data.points, `${path}.points`)) {
+    data.points.forEach((point, i): void =>
+      v.point(point, `${path}.points[${i}]`)
+    );
+  }
+  v.string(data.svgPath, `${path}.svgPath`);
+  v.string(data.color, `${path}.color`);
+  v.number(data.width, `${path}.width`, { min: 0 });
+  v.number(data.opacity, `${path}.opacity`, { optional: true, min: 0, max: 1 });
+  v.oneOf(data.blendMode, `${path}.blendMode`, STROKE_BLEND_MODES, true);
+  v.boolean(data.highlighter, `${path}.highlighter`, true);
+  validateStrokeOptions(v, data.strokeOptions, `${path}.strokeOptions`, true);
+  v.oneOf(data.renderStyle, `${path}.renderStyle`, ["fill", "stroke"], true);
+  validateShape(v, data.shape, `${path}.shape`);
+  v.boolean(data.fromSvg, `${path}.fromSvg`, true);
+  v.string(data.layerId, `${path}.layerId`, true);
+  if (
+    data.timestamps !== undefined &&
+    v.array(data.timestamps, `${path}.timestamps`)
+  ) {
+    data.timestamps.forEach((time, i): void =>
+      v.number(time, `${path}.timestamps[${i}]`)
+    );
+  }
+  v.boolean(data.completed, `${path}.completed`);
+}
+
+function validateText(v: Validator, value: unknown, path: string): void {
+  if (!v.record(value, path)) return;
+  const text = value as UnknownRecord;
+  v.string(text.id, `${path}.id`);
+  v.string(text.text, `${path}.text`);
+  v.number(text.x, `${path}.x`);
+  v.number(text.y, `${path}.y`);
+  v.number(text.fontSize, `${path}.fontSize`, { min: 0 });
+  v.string(text.color, `${path}.color`);
+  v.number(text.rotation, `${path}.rotation`, { optional: true });
+  v.number(text.opacity, `${path}.opacity`, { optional: true, min: 0, max: 1 });
+  v.string(text.fontFamily, `${path}.fontFamily`, true);
+  v.string(text.layerId, `${path}.layerId`, true);
+}
+
+function validateLayer(v: Validator, value: unknown, path: string): void {
+  if (!v.record(value, path)) return;
+  const layer = value as UnknownRecord;
+  v.string(layer.id, `${path}.id`);
+  v.string(layer.name, `${path}.name`);
+  v.boolean(layer.visible, `${path}.visible`);
+  v.boolean(layer.locked, `${path}.locked`);
+  v.number(layer.opacity, `${path}.opacity`, { min: 0, max: 1 });
+}
+
+function validatePathList(v: Validator, value: unknown, path: string): void {
+  if (!v.array(value, path)) return;
+  value.forEach((item, i): void => validatePath(v, item, `${path}[${i}]`));
+  v.uniqueIds(value, path);
+}
+
+// Checks a PathData[] as accepted by setPaths. Returns an empty array when
+// the paths are valid.
+export function validatePaths(value: unknown): DocumentValidationError[] {
+  const v = new Validator();
+  validatePathList(v, value, "paths");
+  return v.errors;
+}
+
+// Checks a document against the current version's schema. Returns every
+// problem found, or an empty array when the document is valid.
+export function validateDocument(value: unknown): DocumentValidationError[] {
+  const v = new Validator();
+  if (!v.record(value, "document")) return v.errors;
+  const document = value as UnknownRecord;
+
+  if (document.version !== DOCUMENT_FORMAT_VERSION) {
+    v.fail("version", `expected ${DOCUMENT_FORMAT_VERSION}`);
+  }
+
+  if (v.record(document.canvas, "canvas")) {
+    const canvas = document.canvas as UnknownRecord;
+    v.number(canvas.width, "canvas.width", { min: 0 });
+    v.number(canvas.height, "canvas.height", { min: 0 });
+  }
+
+  if (v.record(document.background, "background")) {
+    const background = document.background as UnknownRecord;
+    v.string(background.color, "background.color");
+    v.string(background.image, "background.image", true);
+    v.oneOf(
+      background.imageFit,
+      "background.imageFit",
+      ["contain", "cover", "stretch", "none"],
+      true
+    );
+    if (v.record(background.paper, "background.paper", true)) {
+      const paper = background.paper as UnknownRecord;
+      v.oneOf(paper.type, "background.paper.type", [
+        "grid",
+        "lines",
+        "dots",
+        "isometric",
+      ]);
+      for (const key of ["spacing", "lineWidth", "dotSize"]) {
+        v.number(paper[key], `background.paper.${key}`, {
+          optional: true,
+          min: 0,
+        });
+      }
+      v.number(paper.marginX, "background.paper.marginX", { optional: true });
+      v.string(paper.color, "background.paper.color", true);
+      v.string(paper.marginColor, "background.paper.marginColor", true);
+    }
+  }
+
+  if (v.record(document.viewport, "viewport")) {
+    const viewport = document.viewport as UnknownRecord;
+    v.number(viewport.scale, "viewport.scale", { positive: true });
+    v.number(viewport.translateX, "viewport.translateX");
+    v.number(viewport.translateY, "viewport.translateY");
+  }
+
+  if (v.record(document.stroke, "stroke")) {
+    const stroke = document.stroke as UnknownRecord;
+    v.string(stroke.color, "stroke.color");
+    v.number(stroke.width, "stroke.width", { min: 0 });
+    v.number(stroke.opacity, "stroke.opacity", { min: 0, max: 1 });
+    validateStrokeOptions(v, stroke.options, "stroke.options", false);
+  }
+
+  validatePathList(v, document.paths, "paths");
+
+  if (v.array(document.texts, "texts")) {
+    document.texts.forEach((text, i): void =>
+      validateText(v, text, `texts[${i}]`)
+    );
+    v.uniqueIds(document.texts, "texts");
+  }
+
+  if (v.array(document.layers, "layers")) {
+    if (document.layers.length === 0) {
+      v.fail("layers", "expected at least one layer");
+    }
+    document.layers.forEach((layer, i): void =>
+      validateLayer(v, layer, `layers[${i}]`)
+    );
+    v.uniqueIds(document.layers, "layers");
+  }
+
+  if (v.record(document.metadata, "metadata")) {
+    const metadata = document.metadata as UnknownRecord;
+    v.string(metadata.title, "metadata.title", true);
+    v.string(metadata.createdAt, "metadata.createdAt", true);
+    v.string(metadata.updatedAt, "metadata.updatedAt", true);
+  }
+
+  return v.errors;
+}
+
+export function formatValidationErrors(
+  errors: DocumentValidationError[],
+  limit: number = 5
+): string {
+  const shown = errors
+    .slice(0, limit)
+    .map((error): string => `${error.path}: ${error.message}`);
+  if (errors.length > limit) shown.push(`and ${errors.length - limit} more`);
+  return shown.join("; ");
+}
+
+// Parses, migrates and validates a document from JSON or a plain object.
+// Throws with the validation errors when it doesn't match the schema.
+export function parseDocument(input: unknown): CanvasDocument {
+  let data = input;
+  if (typeof input === "string") {
+    try {
+      data = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Invalid document JSON: ${(error as Error).message}`);
+    }
+  }
+
+  const document = migrateDocument(data);
+  const errors = validateDocument(document);
+  if (errors.length > 0) {
+    throw new Error(`Invalid document: ${formatValidationErrors(errors)}`);
+  }
+  return document as CanvasDocument;
+}
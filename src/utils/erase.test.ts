@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { CanvasContent, PathData, Point } from "../types";
+import { erasePathSegment } from "./erase";
+import {
+  applyHistoryCommand,
+  createReplaceCommand,
+  HistoryManager,
+} from "./history";
+import { regenerateSvgPath } from "./shapes";
+
+function createStroke(id: string, y: number): PathData {
+  const points: Point[] = Array.from(
+    { length: 21 },
+    (_, i): Point => [i * 10, y]
+  );
+  const path: PathData = {
+    id,
+    points,
+    svgPath: "",
+    color: "#000000",
+    width: 4,
+    opacity: 1,
+    completed: true,
+  };
+  return { ...path, svgPath: regenerateSvgPath(path) };
+}
+
+function getIds(content: CanvasContent | null): string[] {
+  return content?.paths.map((path): string => path.id) ?? [];
+}
+
+describe("partial erase", (): void => {
+  // Mirrors the canvas: the drag cuts the live paths, then the whole drag is
+  // committed as one command against the paths from before it
+  const erase = (): {
+    base: CanvasContent;
+    erased: CanvasContent;
+    history: HistoryManager;
+  } => {
+    const base: CanvasContent = {
+      paths: [createStroke("a", 0), createStroke("b", 100)],
+      texts: [],
+      layers: [],
+    };
+    const erasedIds = new Set<string>();
+    const paths = base.paths.flatMap((path): PathData[] => {
+      const fragments = erasePathSegment(path, [100, 90], [100, 110], 5);
+      if (!fragments) return [path];
+      erasedIds.add(path.id);
+      return fragments;
+    });
+
+    const command = createReplaceCommand(base.paths, paths, erasedIds);
+    if (!command) throw new Error("Expected an erase command");
+    const history = new HistoryManager();
+    history.push(command, "erase");
+    return { base, erased: applyHistoryCommand(base, command), history };
+  };
+
+  it("commits each fragment once", (): void => {
+    const { erased } = erase();
+    const ids = getIds(erased);
+
+    expect(ids).toHaveLength(3);
+    expect(ids.slice(0, 2)).toEqual(["a", "b"]);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(erased.paths[1].points.every(([x]): boolean => x < 100)).toBe(true);
+    expect(erased.paths[2].points.every(([x]): boolean => x > 100)).toBe(true);
+  });
+
+  it("undoes and redoes the whole drag", (): void => {
+    const { base, erased, history } = erase();
+
+    const undone = history.undo(erased);
+    expect(undone?.paths).toEqual(base.paths);
+
+    const redone = history.redo(undone as CanvasContent);
+    expect(getIds(redone)).toEqual(getIds(erased));
+    expect(redone?.paths).toEqual(erased.paths);
+  });
+
+  it("gives each fragment the timestamps of its own points", (): void => {
+    const stroke = createStroke("a", 0);
+    const timed: PathData = {
+      ...stroke,
+      timestamps: stroke.points.map((_, i): number => i * 10),
+    };
+    const fragments = erasePathSegment(timed, [100, -10], [100, 10], 5) ?? [];
+
+    expect(fragments).toHaveLength(2);
+    for (const fragment of fragments) {
+      const { points, timestamps = [] } = fragment;
+      expect(timestamps).toHaveLength(points.length);
+      // Points are 10 apart and drawn 10ms apart, so time follows x
+      points.forEach(([x], i): void => {
+        expect(timestamps[i]).toBeCloseTo(x);
+      });
+    }
+    expect(fragments[0].timestamps?.[0]).toBe(0);
+    const last = fragments[1].timestamps ?? [];
+    expect(last[last.length - 1]).toBe(200);
+  });
+
+  it("drops timestamps that don't line up with the points", (): void => {
+    const stroke = { ...createStroke("a", 0), timestamps: [0, 100] };
+    const fragments = erasePathSegment(stroke, [100, -10], [100, 10], 5) ?? [];
+
+    expect(fragments).toHaveLength(2);
+    expect(fragments.every((fragment): boolean => !fragment.timestamps)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import type { PathData, Point } from "../types";
+import {
+  distanceBetweenSegments,
+  distanceToSegment,
+  pathIntersectsSegment,
+} from "./hitTest";
+import { generateId, interpolatePoints } from "./path";
+import { regenerateSvgPath } from "./shapes";
+
+// A point of the densified centreline and where it lies along the original
+// points, e.g. 2.5 is halfway between the third and fourth
+interface DensePoint {
+  point: Point;
+  position: number;
+}
+
+// Subdivides segments near the eraser so cuts land close to its edge instead
+// of at the nearest original point
+function densifyPoints(
+  points: Point[],
+  maxStep: number,
+  shouldSplit: (a: Point, b: Point) => boolean
+): DensePoint[] {
+  const result: DensePoint[] =
+    points.length > 0 ? [{ point: points[0], position: 0 }] : [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1];
+    const next = points[i];
+    if (maxStep > 0 && shouldSplit(prev, next)) {
+      const length = Math.hypot(next[0] - prev[0], next[1] - prev[1]);
+      const steps = Math.ceil(length / maxStep);
+
+      for (let step = 1; step < steps; step++) {
+        result.push({
+          point: interpolatePoints(prev, next, step / steps),
+          position: i - 1 + step / steps,
+        });
+      }
+    }
+    result.push({ point: next, position: i });
+  }
+  return result;
+}
+
+// Timestamps for a fragment's points, interpolated from the original ones.
+// Dropped when the original's don't line up with its points.
+function getFragmentTimestamps(
+  path: PathData,
+  run: DensePoint[]
+): number[] | undefined {
+  const { timestamps } = path;
+  if (!timestamps || timestamps.length !== path.points.length) return;
+  return run.map(({ position }): number => {
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, timestamps.length - 1);
+    return (
+      timestamps[index] +
+      (timestamps[next] - timestamps[index]) * (position - index)
+    );
+  });
+}
+
+// Fragments of shapes and imported paths are plain strokes rebuilt from the
+// centreline, they no longer match the original geometry
+function createFragment(
+  path: PathData,
+  run: DensePoint[],
+  id: string
+): PathData {
+  const fragment: PathData = {
+    ...path,
+    id,
+    points: run.map(({ point }): Point => point),
+    timestamps: getFragmentTimestamps(path, run),
+    shape: undefined,
+    fromSvg: undefined,
+  };
+  return { ...fragment, svgPath: regenerateSvgPath(fragment) };
+}
+
+// Cuts the centreline of a path where the eraser segment passes over it.
+// Returns null when the path is untouched, an empty array when it is erased
+// completely, or the remaining fragments. The first fragment keeps the
+// original id so untouched remainders stay addressable.
+export function erasePathSegment(
+  path: PathData,
+  from: Point,
+  to: Point,
+  radius: number
+): PathData[] | null {
+  if (!pathIntersectsSegment(path, from, to, radius)) return null;
+  // Imported fills have no centreline to cut, so they go as a whole
+  if (path.fromSvg && path.renderStyle !== "stroke") return [];
+
+  const step = Math.max(radius / 2, 0.5);
+  const points = densifyPoints(
+    path.points,
+    step,
+    (a, b): boolean => distanceBetweenSegments(a, b, from, to) <= radius + step
+  );
+  const runs: DensePoint[][] = [];
+  let run: DensePoint[] = [];
+  let erasedAny = false;
+
+  for (const dense of points) {
+    if (distanceToSegment(dense.point, from, to) <= radius) {
+      erasedAny = true;
+      if (run.length > 0) {
+        runs.push(run);
+        run = [];
+      }
+    } else {
+      run.push(dense);
+    }
+  }
+  if (run.length > 0) runs.push(run);
+
+  if (!erasedAny) return null;
+
+  // Single leftover points would render as nothing, so they are dropped
+  return runs
+    .filter((fragment): boolean => fragment.length > 1)
+    .map(
+      (fragment, index): PathData =>
+        createFragment(path, fragment, index === 0 ? path.id : generateId())
+    );
+}
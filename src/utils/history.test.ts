@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { CanvasContent, PathData } from "../types";
+import { applyHistoryCommand, HistoryManager } from "./history";
+
+function createPath(id: string): PathData {
+  return {
+    id,
+    points: [
+      [0, 0],
+      [10, 10],
+    ],
+    svgPath: "M 0 0 L 10 10",
+    color: "#000000",
+    width: 4,
+    opacity: 1,
+    completed: true,
+  };
+}
+
+const EMPTY: CanvasContent = { paths: [], texts: [], layers: [] };
+
+// Draws each path as its own undoable step
+function draw(
+  history: HistoryManager,
+  ids: string[]
+): { content: CanvasContent } {
+  let content = EMPTY;
+  for (const id of ids) {
+    const command = { type: "add" as const, paths: [createPath(id)] };
+    history.push(command, "draw");
+    content = applyHistoryCommand(content, command);
+  }
+  return { content };
+}
+
+describe("history import", (): void => {
+  it("restores a payload that matches the content", (): void => {
+    const source = new HistoryManager();
+    const { content } = draw(source, ["a", "b"]);
+    const data = JSON.parse(JSON.stringify(source.serialize(content)));
+
+    const history = new HistoryManager();
+    history.restore(data, content);
+
+    expect(history.getIndex()).toBe(1);
+    expect(history.undo(content)?.paths.map((path): string => path.id)).toEqual(
+      ["a"]
+    );
+  });
+
+  it("keeps the existing undo tree when the content doesn't match", (): void => {
+    const history = new HistoryManager();
+    const { content } = draw(history, ["a", "b"]);
+    const entries = history.getEntries();
+
+    const other = new HistoryManager();
+    const { content: otherContent } = draw(other, ["x", "y", "z"]);
+    const data = JSON.parse(JSON.stringify(other.serialize(otherContent)));
+
+    expect((): void => history.restore(data, content)).toThrow();
+    expect(history.canUndo()).toBe(true);
+    expect(history.getIndex()).toBe(1);
+    expect(history.getEntries()).toEqual(entries);
+
+    const undone = history.undo(content);
+    expect(undone?.paths.map((path): string => path.id)).toEqual(["a"]);
+    expect(history.undo(undone as CanvasContent)?.paths).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it("keeps the existing undo tree when the payload is invalid", (): void => {
+    const history = new HistoryManager();
+    const { content } = draw(history, ["a"]);
+    const data = JSON.parse(JSON.stringify(history.serialize(content)));
+
+    expect((): void => history.restore({ ...data, paths: undefined })).toThrow(
+      "paths"
+    );
+    expect(history.canUndo()).toBe(true);
+    expect(history.getIndex()).toBe(0);
+  });
+});
+
+describe("snapshot commands", (): void => {
+  const getIds = (content: CanvasContent | null): string[] =>
+    content?.paths.map((path): string => path.id) ?? [];
+
+  it("keeps paths added outside the history when undoing a clear", (): void => {
+    const history = new HistoryManager();
+    const { content } = draw(history, ["a", "b"]);
+    const clear = { type: "clear" as const, paths: content.paths, texts: [] };
+    history.push(clear, "clear");
+    const cleared = applyHistoryCommand(content, clear);
+
+    // A collaborator draws after the clear
+    const remote = { ...cleared, paths: [createPath("r")] };
+    const undone = history.undo(remote);
+    expect(getIds(undone)).toEqual(["a", "b", "r"]);
+
+    const redone = history.redo(undone as CanvasContent);
+    expect(getIds(redone)).toEqual(["r"]);
+  });
+
+  it("rebases setPaths onto changes made outside the history", (): void => {
+    const history = new HistoryManager();
+    const { content } = draw(history, ["a", "b", "c"]);
+    const [a, b, c] = content.paths;
+    const replacement = { ...a, color: "#ff0000" };
+    const setPaths = {
+      type: "setPaths" as const,
+      before: content.paths,
+      after: [replacement, b, createPath("d")],
+    };
+    history.push(setPaths, "setPaths");
+    const set = applyHistoryCommand(content, setPaths);
+    expect(getIds(set)).toEqual(["a", "b", "d"]);
+
+    // A collaborator recolors b, removes d and draws r
+    const updated = { ...b, color: "#00ff00" };
+    const remote = { ...set, paths: [replacement, updated, createPath("r")] };
+    const undone = history.undo(remote);
+    expect(undone?.paths).toEqual([a, updated, c, remote.paths[2]]);
+
+    const redone = history.redo(undone as CanvasContent);
+    expect(redone?.paths).toEqual([
+      replacement,
+      updated,
+      setPaths.after[2],
+      remote.paths[2],
+    ]);
+  });
+});
@@ -1,74 +1,636 @@
-import type { PathData } from "../types";
+import type {
+  CanvasContent,
+  HistoryEntry,
+  IdChanges,
+  Layer,
+  PathData,
+  TextElement,
+} from "../types";
+import { validatePaths } from "./document";
+import { resolveLayerId } from "./layers";
+import { generateId } from "./path";
+
+export type HistoryCommand =
+  // Without indices the paths are appended on top of the drawing
+  | { type: "add"; paths: PathData[]; indices?: number[] }
+  | { type: "remove"; paths: PathData[]; indices: number[] }
+  | { type: "modify"; before: PathData[]; after: PathData[] }
+  // texts is absent in commands recorded before text support
+  | { type: "clear"; paths: PathData[]; texts?: TextElement[] }
+  | { type: "setPaths"; before: PathData[]; after: PathData[] }
+  | { type: "addText"; texts: TextElement[] }
+  | { type: "removeText"; texts: TextElement[]; indices: number[] }
+  | { type: "modifyText"; before: TextElement[]; after: TextElement[] }
+  | { type: "setTexts"; before: TextElement[]; after: TextElement[] }
+  | { type: "setLayers"; before: Layer[]; after: Layer[] }
+  | { type: "batch"; commands: HistoryCommand[] };
 
 export interface HistoryState {
-  paths: PathData[];
+  id: string;
+  parentId: string | null;
+  childIds: string[];
+  activeChildId: string | null;
+  command: HistoryCommand;
+  label: string;
   timestamp: number;
 }
 
+function replaceById<T extends { id: string }>(
+  items: T[],
+  replacements: T[]
+): T[] {
+  const byId = new Map(
+    replacements.map((item): [string, T] => [item.id, item])
+  );
+  return items.map((item): T => byId.get(item.id) ?? item);
+}
+
+function removeById<T extends { id: string }>(items: T[], removed: T[]): T[] {
+  const ids = new Set(removed.map((item): string => item.id));
+  return items.filter((item): boolean => !ids.has(item.id));
+}
+
+// Inserts in ascending index order so each index is valid on insert
+function insertAtIndices<T>(items: T[], inserted: T[], indices: number[]): T[] {
+  const result = [...items];
+  indices
+    .map((index, i): [number, T] => [index, inserted[i]])
+    .sort((a, b): number => a[0] - b[0])
+    .forEach(([index, item]): void => {
+      result.splice(Math.min(index, result.length), 0, item);
+    });
+  return result;
+}
+
+function collectByIds<T extends { id: string }>(
+  items: T[],
+  ids: Iterable<string>
+): { removed: T[]; indices: number[] } {
+  const idSet = new Set(ids);
+  const removed: T[] = [];
+  const indices: number[] = [];
+
+  items.forEach((item, index): void => {
+    if (idSet.has(item.id)) {
+      removed.push(item);
+      indices.push(index);
+    }
+  });
+  return { removed, indices };
+}
+
+// Moves a list from one snapshot to another by id, so changes made since
+// outside the history (e.g. by collaborators) survive: elements added since
+// stay on top, elements removed since stay removed and elements updated
+// since keep the update unless the command changes them too
+function rebaseById<T extends { id: string }>(
+  items: T[],
+  from: T[],
+  to: T[]
+): T[] {
+  const current = new Map(items.map((item): [string, T] => [item.id, item]));
+  const previous = new Map(from.map((item): [string, T] => [item.id, item]));
+  const placed = new Set(to.map((item): string => item.id));
+
+  const result = to.flatMap((item): T[] => {
+    const old = previous.get(item.id);
+    if (!old) return [item];
+    const latest = current.get(item.id);
+    if (!latest) return [];
+    return [old === item ? latest : item];
+  });
+  const added = items.filter(
+    (item): boolean => !previous.has(item.id) && !placed.has(item.id)
+  );
+  return [...result, ...added];
+}
+
+// Compares two versions of a list. Elements are immutable, so a new object
+// under an existing id counts as updated.
+export function diffById<T extends { id: string }>(
+  before: T[],
+  after: T[]
+): IdChanges {
+  const previous = new Map(before.map((item): [string, T] => [item.id, item]));
+  const kept = new Set<string>();
+  const changes: IdChanges = { added: [], removed: [], updated: [] };
+
+  for (const item of after) {
+    kept.add(item.id);
+    const old = previous.get(item.id);
+    if (!old) changes.added.push(item.id);
+    else if (old !== item) changes.updated.push(item.id);
+  }
+  for (const item of before) {
+    if (!kept.has(item.id)) changes.removed.push(item.id);
+  }
+  return changes;
+}
+
+// Commands only hold references to the affected elements, so PathData and
+// TextElement objects must be treated as immutable once committed.
+export function applyHistoryCommand(
+  content: CanvasContent,
+  command: HistoryCommand
+): CanvasContent {
+  const { paths, texts } = content;
+  switch (command.type) {
+    case "add":
+      return {
+        ...content,
+        paths: command.indices
+          ? insertAtIndices(paths, command.paths, command.indices)
+          : [...paths, ...command.paths],
+      };
+    case "remove":
+      return { ...content, paths: removeById(paths, command.paths) };
+    case "modify":
+      return { ...content, paths: replaceById(paths, command.after) };
+    case "clear":
+      return {
+        ...content,
+        paths: rebaseById(paths, command.paths, []),
+        texts: rebaseById(texts, command.texts ?? [], []),
+      };
+    case "setPaths":
+      return {
+        ...content,
+        paths: rebaseById(paths, command.before, command.after),
+      };
+    case "addText":
+      return { ...content, texts: [...texts, ...command.texts] };
+    case "removeText":
+      return { ...content, texts: removeById(texts, command.texts) };
+    case "modifyText":
+      return { ...content, texts: replaceById(texts, command.after) };
+    case "setTexts":
+      return {
+        ...content,
+        texts: rebaseById(texts, command.before, command.after),
+      };
+    case "setLayers":
+      return { ...content, layers: command.after };
+    case "batch":
+      return command.commands.reduce(applyHistoryCommand, content);
+  }
+}
+
+export function revertHistoryCommand(
+  content: CanvasContent,
+  command: HistoryCommand
+): CanvasContent {
+  const { paths, texts } = content;
+  switch (command.type) {
+    case "add":
+      return { ...content, paths: removeById(paths, command.paths) };
+    case "remove":
+      return {
+        ...content,
+        paths: insertAtIndices(paths, command.paths, command.indices),
+      };
+    case "modify":
+      return { ...content, paths: replaceById(paths, command.before) };
+    case "clear":
+      return {
+        ...content,
+        paths: rebaseById(paths, [], command.paths),
+        texts: rebaseById(texts, [], command.texts ?? []),
+      };
+    case "setPaths":
+      return {
+        ...content,
+        paths: rebaseById(paths, command.after, command.before),
+      };
+    case "addText":
+      return { ...content, texts: removeById(texts, command.texts) };
+    case "removeText":
+      return {
+        ...content,
+        texts: insertAtIndices(texts, command.texts, command.indices),
+      };
+    case "modifyText":
+      return { ...content, texts: replaceById(texts, command.before) };
+    case "setTexts":
+      return {
+        ...content,
+        texts: rebaseById(texts, command.after, command.before),
+      };
+    case "setLayers":
+      return { ...content, layers: command.before };
+    case "batch":
+      return command.commands.reduceRight(revertHistoryCommand, content);
+  }
+}
+
+export function createRemoveCommand(
+  paths: PathData[],
+  ids: Iterable<string>
+): Extract<HistoryCommand, { type: "remove" }> | null {
+  const { removed, indices } = collectByIds(paths, ids);
+  return removed.length > 0
+    ? { type: "remove", paths: removed, indices }
+    : null;
+}
+
+export function createRemoveTextCommand(
+  texts: TextElement[],
+  ids: Iterable<string>
+): Extract<HistoryCommand, { type: "removeText" }> | null {
+  const { removed, indices } = collectByIds(texts, ids);
+  return removed.length > 0
+    ? { type: "removeText", texts: removed, indices }
+    : null;
+}
+
+// Describes replacing some paths with new ones in place, e.g. a stroke split
+// into fragments. Replacement paths may reuse the id of the path they replace.
+export function createReplaceCommand(
+  before: PathData[],
+  after: PathData[],
+  replacedIds: Iterable<string>
+): HistoryCommand | null {
+  const remove = createRemoveCommand(before, replacedIds);
+  if (!remove) return null;
+
+  const removedIds = new Set(remove.paths.map((path): string => path.id));
+  const keptIds = new Set(
+    before
+      .filter((path): boolean => !removedIds.has(path.id))
+      .map((path): string => path.id)
+  );
+  const added: PathData[] = [];
+  const indices: number[] = [];
+  after.forEach((path, index): void => {
+    if (!keptIds.has(path.id)) {
+      added.push(path);
+      indices.push(index);
+    }
+  });
+
+  return added.length > 0
+    ? {
+        type: "batch",
+        commands: [remove, { type: "add", paths: added, indices }],
+      }
+    : remove;
+}
+
+// Deleting a layer deletes its content in the same undoable step. The last
+// remaining layer can't be removed.
+export function createRemoveLayerCommand(
+  content: CanvasContent,
+  id: string
+): HistoryCommand | null {
+  const { layers } = content;
+  if (layers.length <= 1 || !layers.some((layer): boolean => layer.id === id)) {
+    return null;
+  }
+
+  const onLayer = (item: PathData | TextElement): boolean =>
+    resolveLayerId(item, layers) === id;
+  const commands: HistoryCommand[] = [];
+  const removePaths = createRemoveCommand(
+    content.paths,
+    content.paths.filter(onLayer).map((path): string => path.id)
+  );
+  const removeTexts = createRemoveTextCommand(
+    content.texts,
+    content.texts.filter(onLayer).map((text): string => text.id)
+  );
+  if (removePaths) commands.push(removePaths);
+  if (removeTexts) commands.push(removeTexts);
+  commands.push({
+    type: "setLayers",
+    before: layers,
+    after: layers.filter((layer): boolean => layer.id !== id),
+  });
+
+  return commands.length === 1 ? commands[0] : { type: "batch", commands };
+}
+
+// Version 2 added texts and version 3 layers; older payloads still restore
+export const HISTORY_FORMAT_VERSION = 3;
+
+// JSON-safe snapshot of the undo tree plus the content at the current node,
+// which is the state every stored command is relative to
+export interface SerializedHistory {
+  version: number;
+  currentId: string | null;
+  rootChildIds: string[];
+  rootActiveChildId: string | null;
+  nodes: HistoryState[];
+  paths: PathData[];
+  texts?: TextElement[];
+  layers?: Layer[];
+}
+
+// Whether the content is the one a payload's commands are relative to.
+// Compared as JSON, which is what the payload went through.
+function historyMatchesContent(
+  data: SerializedHistory,
+  content: CanvasContent
+): boolean {
+  const same = (a: unknown, b: unknown): boolean =>
+    JSON.stringify(a) === JSON.stringify(b);
+  return (
+    same(data.paths, content.paths) &&
+    same(data.texts ?? [], content.texts) &&
+    (data.layers === undefined || same(data.layers, content.layers))
+  );
+}
+
 export class HistoryManager {
-  private history: HistoryState[] = [];
-  private currentIndex: number = -1;
+  private nodes = new Map<string, HistoryState>();
+  private rootChildIds: string[] = [];
+  // Branch followed by redo from the baseline (before any node is applied)
+  private rootActiveChildId: string | null = null;
+  private currentId: string | null = null;
   private maxSize: number;
 
   constructor(maxSize: number = 50) {
-    this.maxSize = maxSize;
+    this.maxSize = Math.max(1, maxSize);
   }
 
-  push(state: PathData[]): void {
-    // Remove any states after current index (for redo functionality)
-    this.history = this.history.slice(0, this.currentIndex + 1);
-
-    // Add new state
-    this.history.push({
-      paths: JSON.parse(JSON.stringify(state)), // Deep clone
+  push(command: HistoryCommand, label: string = command.type): string {
+    // New commands start a new branch; existing redo branches are kept
+    const node: HistoryState = {
+      id: generateId(),
+      parentId: this.currentId,
+      childIds: [],
+      activeChildId: null,
+      command,
+      label,
       timestamp: Date.now(),
-    });
+    };
 
-    // Limit history size
-    if (this.history.length > this.maxSize) {
-      this.history.shift();
-    } else {
-      this.currentIndex++;
-    }
+    this.nodes.set(node.id, node);
+    this.getChildIds(this.currentId).push(node.id);
+    this.setActiveChild(this.currentId, node.id);
+    this.currentId = node.id;
+
+    this.prune();
+    return node.id;
   }
 
-  undo(): PathData[] | null {
-    if (this.currentIndex > 0) {
-      this.currentIndex--;
-      return JSON.parse(JSON.stringify(this.history[this.currentIndex].paths));
-    }
-    return null;
+  undo(content: CanvasContent): CanvasContent | null {
+    const current = this.currentId ? this.nodes.get(this.currentId) : null;
+    if (!current) return null;
+
+    // Remember the branch so redo walks back down the same way
+    this.setActiveChild(current.parentId, current.id);
+    this.currentId = current.parentId;
+    return revertHistoryCommand(content, current.command);
   }
 
-  redo(): PathData[] | null {
-    if (this.currentIndex < this.history.length - 1) {
-      this.currentIndex++;
-      return JSON.parse(JSON.stringify(this.history[this.currentIndex].paths));
+  redo(content: CanvasContent): CanvasContent | null {
+    const nextId = this.getActiveChildId(this.currentId);
+    const next = nextId ? this.nodes.get(nextId) : null;
+    if (!next) return null;
+
+    this.currentId = next.id;
+    return applyHistoryCommand(content, next.command);
+  }
+
+  // Moves to any node in the tree by reverting up to the common ancestor and
+  // re-applying the commands down the target branch
+  jumpTo(nodeId: string | null, content: CanvasContent): CanvasContent | null {
+    if (nodeId !== null && !this.nodes.has(nodeId)) return null;
+    if (nodeId === this.currentId) return content;
+
+    const fromChain = this.getChain(this.currentId);
+    const toChain = this.getChain(nodeId);
+
+    let common = 0;
+    while (
+      common < fromChain.length &&
+      common < toChain.length &&
+      fromChain[common] === toChain[common]
+    ) {
+      common++;
     }
-    return null;
+
+    let nextContent = content;
+    for (let i = fromChain.length - 1; i >= common; i--) {
+      nextContent = revertHistoryCommand(nextContent, fromChain[i].command);
+    }
+    for (let i = common; i < toChain.length; i++) {
+      nextContent = applyHistoryCommand(nextContent, toChain[i].command);
+      this.setActiveChild(toChain[i].parentId, toChain[i].id);
+    }
+
+    this.currentId = nodeId;
+    return nextContent;
   }
 
   canUndo(): boolean {
-    return this.currentIndex > 0;
+    return this.currentId !== null;
   }
 
   canRedo(): boolean {
-    return this.currentIndex < this.history.length - 1;
+    return this.getActiveChildId(this.currentId) !== null;
   }
 
   clear(): void {
-    this.history = [];
-    this.currentIndex = -1;
+    this.nodes.clear();
+    this.rootChildIds = [];
+    this.rootActiveChildId = null;
+    this.currentId = null;
   }
 
   getSize(): number {
-    return this.history.length;
+    return this.nodes.size;
+  }
+
+  // Number of commands applied on the current branch minus one, so -1 means
+  // everything has been undone
+  getIndex(): number {
+    return this.getChain(this.currentId).length - 1;
+  }
+
+  getCurrentId(): string | null {
+    return this.currentId;
+  }
+
+  getEntries(): HistoryEntry[] {
+    return Array.from(this.nodes.values()).map(
+      ({ id, parentId, childIds, label, timestamp }): HistoryEntry => ({
+        id,
+        parentId,
+        childIds: [...childIds],
+        label,
+        timestamp,
+        isCurrent: id === this.currentId,
+      })
+    );
   }
 
-  getCurrentState(): PathData[] | null {
-    if (this.currentIndex >= 0 && this.currentIndex < this.history.length) {
-      return JSON.parse(JSON.stringify(this.history[this.currentIndex].paths));
+  serialize(
+    content: CanvasContent,
+    options: { maxBytes?: number } = {}
+  ): SerializedHistory {
+    const { maxBytes = Infinity } = options;
+
+    let data: SerializedHistory = JSON.parse(
+      JSON.stringify({
+        version: HISTORY_FORMAT_VERSION,
+        currentId: this.currentId,
+        rootChildIds: this.rootChildIds,
+        rootActiveChildId: this.rootActiveChildId,
+        nodes: Array.from(this.nodes.values()),
+        paths: content.paths,
+        texts: content.texts,
+        layers: content.layers,
+      })
+    );
+
+    // Halve the number of kept nodes until the payload fits, using the normal
+    // pruning rules so abandoned branches and the oldest commands go first
+    while (data.nodes.length > 0 && JSON.stringify(data).length > maxBytes) {
+      const keep = Math.floor(data.nodes.length / 2);
+      const reduced = new HistoryManager(Math.max(keep, 1));
+      if (keep > 0) {
+        reduced.restore(data);
+      }
+      data = reduced.serialize({
+        paths: data.paths,
+        texts: data.texts ?? [],
+        layers: data.layers ?? [],
+      });
     }
-    return null;
+
+    return data;
+  }
+
+  // With content, the payload is only accepted if its commands are relative
+  // to that content. Nothing changes when it throws.
+  restore(data: SerializedHistory, content?: CanvasContent): void {
+    if (
+      typeof data?.version !== "number" ||
+      data.version < 1 ||
+      data.version > HISTORY_FORMAT_VERSION
+    ) {
+      throw new Error(`Unsupported history version: ${data?.version}`);
+    }
+    if (!Array.isArray(data.nodes) || !Array.isArray(data.rootChildIds)) {
+      throw new Error("Invalid history data: missing nodes");
+    }
+    for (const node of data.nodes) {
+      if (
+        typeof node?.id !== "string" ||
+        typeof node.command?.type !== "string" ||
+        !Array.isArray(node.childIds)
+      ) {
+        throw new Error(`Invalid history data: malformed node ${node?.id}`);
+      }
+    }
+    const pathErrors = validatePaths(data.paths);
+    if (pathErrors.length > 0) {
+      const { path, message } = pathErrors[0];
+      throw new Error(`Invalid history data: ${path} ${message}`);
+    }
+    // Optional for versions recorded before texts and layers existed
+    for (const key of ["texts", "layers"] as const) {
+      if (data[key] !== undefined && !Array.isArray(data[key])) {
+        throw new Error(`Invalid history data: ${key} must be an array`);
+      }
+    }
+    if (content && !historyMatchesContent(data, content)) {
+      throw new Error("History doesn't match the current content");
+    }
+
+    const nodes = new Map<string, HistoryState>();
+    for (const node of data.nodes) {
+      nodes.set(node.id, { ...node, childIds: [...node.childIds] });
+    }
+    if (data.currentId !== null && !nodes.has(data.currentId)) {
+      throw new Error(`Invalid history data: unknown node ${data.currentId}`);
+    }
+
+    this.nodes = nodes;
+    this.rootChildIds = [...data.rootChildIds];
+    this.rootActiveChildId = data.rootActiveChildId;
+    this.currentId = data.currentId;
+
+    // Imported history may be larger than this manager allows
+    if (data.nodes.length > 0) {
+      this.prune();
+    }
+  }
+
+  private getChildIds(nodeId: string | null): string[] {
+    if (nodeId === null) return this.rootChildIds;
+    return this.nodes.get(nodeId)?.childIds ?? [];
+  }
+
+  private getActiveChildId(nodeId: string | null): string | null {
+    if (nodeId === null) return this.rootActiveChildId;
+    return this.nodes.get(nodeId)?.activeChildId ?? null;
+  }
+
+  private setActiveChild(nodeId: string | null, childId: string | null): void {
+    if (nodeId === null) {
+      this.rootActiveChildId = childId;
+      return;
+    }
+    const node = this.nodes.get(nodeId);
+    if (node) node.activeChildId = childId;
+  }
+
+  // Nodes from the baseline down to (and including) the given node
+  private getChain(nodeId: string | null): HistoryState[] {
+    const chain: HistoryState[] = [];
+    let node = nodeId ? this.nodes.get(nodeId) : undefined;
+    while (node) {
+      chain.unshift(node);
+      node = node.parentId ? this.nodes.get(node.parentId) : undefined;
+    }
+    return chain;
+  }
+
+  private prune(): void {
+    while (this.nodes.size > this.maxSize) {
+      const protectedIds = new Set(
+        this.getChain(this.currentId).map((node): string => node.id)
+      );
+
+      // Prefer dropping the oldest leaf of an abandoned branch
+      let oldestLeaf: HistoryState | null = null;
+      for (const node of this.nodes.values()) {
+        if (node.childIds.length > 0 || protectedIds.has(node.id)) continue;
+        if (!oldestLeaf || node.timestamp < oldestLeaf.timestamp) {
+          oldestLeaf = node;
+        }
+      }
+
+      if (oldestLeaf) {
+        this.removeLeaf(oldestLeaf);
+      } else {
+        this.collapseBaseline();
+      }
+    }
+  }
+
+  private removeLeaf(leaf: HistoryState): void {
+    const siblings = this.getChildIds(leaf.parentId);
+    siblings.splice(siblings.indexOf(leaf.id), 1);
+    if (this.getActiveChildId(leaf.parentId) === leaf.id) {
+      this.setActiveChild(leaf.parentId, siblings[siblings.length - 1] ?? null);
+    }
+    this.nodes.delete(leaf.id);
+  }
+
+  // Folds the first command of the current branch into the baseline. Only
+  // reached when every remaining node lies on the current branch.
+  private collapseBaseline(): void {
+    const first = this.getChain(this.currentId)[0];
+    if (!first) return;
+
+    for (const childId of first.childIds) {
+      const child = this.nodes.get(childId);
+      if (child) child.parentId = null;
+    }
+    this.rootChildIds = first.childIds;
+    this.rootActiveChildId = first.activeChildId;
+    this.nodes.delete(first.id);
   }
 }
@@ -0,0 +1,99 @@
+import type { PathData, Point } from "../types";
+import { getPathBounds } from "./path";
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Degenerate segment - fall back to point distance
+  if (lengthSquared === 0) {
+    return Math.hypot(p[0] - a[0], p[1] - a[1]);
+  }
+
+  const t = Math.max(
+    0,
+    Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared)
+  );
+  return Math.hypot(p[0] - (a[0] + t * dx), p[1] - (a[1] + t * dy));
+}
+
+function segmentsIntersect(
+  a1: Point,
+  a2: Point,
+  b1: Point,
+  b2: Point
+): boolean {
+  const cross = (o: Point, p: Point, q: Point): number =>
+    (p[0] - o[0]) * (q[1] - o[1]) - (p[1] - o[1]) * (q[0] - o[0]);
+
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+export function distanceBetweenSegments(
+  a1: Point,
+  a2: Point,
+  b1: Point,
+  b2: Point
+): number {
+  if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+
+  return Math.min(
+    distanceToSegment(a1, b1, b2),
+    distanceToSegment(a2, b1, b2),
+    distanceToSegment(b1, a1, a2),
+    distanceToSegment(b2, a1, a2)
+  );
+}
+
+// Tests the centreline of a path against a swept eraser segment. The path
+// outline is approximated as the centreline grown by half the stroke width.
+export function pathIntersectsSegment(
+  path: PathData,
+  from: Point,
+  to: Point,
+  radius: number
+): boolean {
+  const { points } = path;
+  if (points.length === 0) return false;
+
+  const reach = radius + path.width / 2;
+
+  // Cheap bounds rejection before walking every segment
+  const bounds = getPathBounds(points);
+  if (
+    Math.max(from[0], to[0]) < bounds.minX - reach ||
+    Math.min(from[0], to[0]) > bounds.maxX + reach ||
+    Math.max(from[1], to[1]) < bounds.minY - reach ||
+    Math.min(from[1], to[1]) > bounds.maxY + reach
+  ) {
+    return false;
+  }
+
+  if (points.length === 1) {
+    return distanceToSegment(points[0], from, to) <= reach;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    if (distanceBetweenSegments(points[i - 1], points[i], from, to) <= reach) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function findPathsNearSegment(
+  paths: PathData[],
+  from: Point,
+  to: Point,
+  radius: number
+): string[] {
+  return paths
+    .filter((path): boolean => pathIntersectsSegment(path, from, to, radius))
+    .map((path): string => path.id);
+}
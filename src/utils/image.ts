@@ -0,0 +1,40 @@
+import type { BackgroundImageFit, CanvasRect } from "../types";
+
+// Where an image of the given size is drawn for a fit mode. The result can
+// extend past the frame ("cover", "none"), so it should be clipped to it.
+export function getImageFitRect(
+  imageWidth: number,
+  imageHeight: number,
+  frame: CanvasRect,
+  fit: BackgroundImageFit
+): CanvasRect {
+  if (fit === "stretch" || imageWidth <= 0 || imageHeight <= 0) {
+    return frame;
+  }
+
+  let scale = 1;
+  if (fit === "contain") {
+    scale = Math.min(frame.width / imageWidth, frame.height / imageHeight);
+  } else if (fit === "cover") {
+    scale = Math.max(frame.width / imageWidth, frame.height / imageHeight);
+  }
+
+  const width = imageWidth * scale;
+  const height = imageHeight * scale;
+  return {
+    x: frame.x + (frame.width - width) / 2,
+    y: frame.y + (frame.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+// Splits "data:image/png;base64,...." into its mime type and base64 payload.
+// Returns null for anything that isn't a base64 data URI.
+export function parseDataUri(
+  uri: string
+): { mimeType: string; base64: string } | null {
+  const match = /^data:([^;,]+)?(?:;[^;,]*)*;base64,([\s\S]*)$/.exec(uri);
+  if (!match) return null;
+  return { mimeType: match[1] ?? "application/octet-stream", base64: match[2] };
+}
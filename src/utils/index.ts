@@ -1,3 +1,24 @@
 export * from "./svg";
 export * from "./path";
 export * from "./history";
+export * from "./hitTest";
+export * from "./erase";
+export * from "./selection";
+export * from "./shapes";
+export * from "./recognition";
+export * from "./text";
+export * from "./layers";
+export * from "./image";
+export * from "./paper";
+export * from "./svgPath";
+export * from "./svgImport";
+export * from "./document";
+export * from "./pdf";
+export * from "./replay";
+export * from "./xml";
+export * from "./inkml";
+export * from "./binary";
+export * from "./collaboration";
+export * from "./spatialIndex";
+export * from "./liveStroke";
+export * from "./pathRuns";
@@ -0,0 +1,495 @@
+import type {
+  InkMLExportOptions,
+  InkMLImportOptions,
+  PathData,
+  Point,
+} from "../types";
+import { generateId, processPoints } from "./path";
+import { parseCssColor } from "./pdf";
+import { spreadTimestamps } from "./replay";
+import type { XmlNode } from "./xml";
+import { findXmlElement, getLocalName, parseXml } from "./xml";
+
+export const INKML_NAMESPACE = "http://www.w3.org/2003/InkML";
+
+const DEFAULT_INKML_WIDTH = 8;
+
+// Brush properties a trace is drawn with
+interface InkBrush {
+  color?: string;
+  width?: number;
+  // 0 (opaque) to 255 (invisible)
+  transparency?: number;
+  rasterOp?: string;
+}
+
+interface InkChannel {
+  name: string;
+  min?: number;
+  max?: number;
+  // Multiplier to ms for T channels
+  timeScale: number;
+  // Epoch ms the T channel counts from
+  origin?: number;
+}
+
+type DifferenceMode = "!" | "'" | '"';
+
+function formatNumber(value: number, precision: number): string {
+  const factor = 10 ** precision;
+  const rounded = Math.round(value * factor) / factor;
+  return String(Object.is(rounded, -0) ? 0 : rounded);
+}
+
+function toHexColor(color: string): { hex: string; alpha: number } {
+  const parsed = parseCssColor(color) ?? { r: 0, g: 0, b: 0, a: 1 };
+  const hex = [parsed.r, parsed.g, parsed.b]
+    .map((c): string =>
+      Math.round(Math.max(0, Math.min(1, c)) * 255)
+        .toString(16)
+        .padStart(2, "0")
+    )
+    .join("");
+  return { hex: `#${hex.toUpperCase()}`, alpha: parsed.a };
+}
+
+// Time of every point, or null when the path has none recorded
+function getTraceTimes(path: PathData): number[] | null {
+  const { timestamps, points } = path;
+  if (!timestamps || timestamps.length === 0) return null;
+  if (timestamps.length === points.length) return timestamps;
+  return spreadTimestamps(
+    timestamps[0],
+    timestamps[timestamps.length - 1],
+    points.length
+  );
+}
+
+// Writes each path as a <trace> in the W3C InkML format. Paths share a
+// context per channel set (X Y, plus F for pressure and T for time) and a
+// brush per colour, width and opacity. Times are in ms from the earliest
+// recorded point, which the T channel refers to through a <timestamp>.
+export function toInkML(
+  paths: PathData[],
+  options: InkMLExportOptions = {}
+): string {
+  const {
+    precision = 2,
+    includePressure = true,
+    includeTimestamps = true,
+  } = options;
+  const drawn = paths.filter((path): boolean => path.points.length > 0);
+
+  const times = drawn.map((path): number[] | null =>
+    includeTimestamps ? getTraceTimes(path) : null
+  );
+  const recorded = times.filter((t): t is number[] => t !== null);
+  const origin =
+    recorded.length > 0
+      ? Math.min(...recorded.map((t): number => t[0]))
+      : undefined;
+
+  const contexts = new Map<string, string>();
+  const brushes = new Map<string, string>();
+  const brushElements: string[] = [];
+  const traces: string[] = [];
+
+  drawn.forEach((path, index): void => {
+    const hasPressure =
+      includePressure &&
+      path.points.every((point): boolean => point[2] !== undefined);
+    const pointTimes = times[index];
+    const channels = `xy${hasPressure ? "f" : ""}${pointTimes ? "t" : ""}`;
+    if (!contexts.has(channels)) contexts.set(channels, `ctx-${channels}`);
+
+    const { hex, alpha } = toHexColor(path.color);
+    const transparency = Math.round(
+      (1 - Math.max(0, Math.min(1, alpha * (path.opacity ?? 1)))) * 255
+    );
+    const width = formatNumber(path.width, precision);
+    const rasterOp = path.highlighter ? "mask-pen" : "copy-pen";
+    const brushKey = `${hex} ${width} ${transparency} ${rasterOp}`;
+    let brushId = brushes.get(brushKey);
+    if (!brushId) {
+      brushId = `br${brushes.size}`;
+      brushes.set(brushKey, brushId);
+      brushElements.push(
+        [
+          `    <brush xml:id="${brushId}">`,
+          `      <brushProperty name="color" value="${hex}"/>`,
+          `      <brushProperty name="width" value="${width}"/>`,
+          `      <brushProperty name="height" value="${width}"/>`,
+          `      <brushProperty name="tip" value="ellipse"/>`,
+          `      <brushProperty name="transparency" value="${transparency}"/>`,
+          `      <brushProperty name="rasterOp" value="${rasterOp}"/>`,
+          `    </brush>`,
+        ].join("\n")
+      );
+    }
+
+    const values = path.points.map((point, i): string => {
+      const fields = [
+        formatNumber(point[0], precision),
+        formatNumber(point[1], precision),
+      ];
+      if (hasPressure) fields.push(formatNumber(point[2] ?? 0.5, precision));
+      if (pointTimes) {
+        fields.push(String(Math.round(pointTimes[i] - (origin ?? 0))));
+      }
+      return fields.join(" ");
+    });
+    traces.push(
+      `  <trace contextRef="#ctx-${channels}" brushRef="#${brushId}">${values.join(", ")}</trace>`
+    );
+  });
+
+  const contextElements = [...contexts.keys()].map((channels): string => {
+    const lines = [
+      `    <context xml:id="ctx-${channels}">`,
+      `      <traceFormat>`,
+      `        <channel name="X" type="decimal"/>`,
+      `        <channel name="Y" type="decimal"/>`,
+    ];
+    if (channels.includes("f")) {
+      lines.push(`        <channel name="F" type="decimal" min="0" max="1"/>`);
+    }
+    if (channels.includes("t")) {
+      lines.push(
+        `        <channel name="T" type="integer" units="ms" respectTo="#ts0"/>`
+      );
+    }
+    lines.push(`      </traceFormat>`, `    </context>`);
+    return lines.join("\n");
+  });
+
+  const definitions = [
+    ...(origin !== undefined
+      ? [`    <timestamp xml:id="ts0" time="${Math.round(origin)}"/>`]
+      : []),
+    ...contextElements,
+    ...brushElements,
+  ];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<ink xmlns="${INKML_NAMESPACE}">`,
+    ...(definitions.length > 0
+      ? [`  <definitions>`, ...definitions, `  </definitions>`]
+      : []),
+    ...traces,
+    `</ink>`,
+    "",
+  ].join("\n");
+}
+
+// Strips the "#" from local references such as brushRef="#br0"
+function getReference(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return value.startsWith("#") ? value.slice(1) : value;
+}
+
+// Reads a trace's point data, undoing the format's ' (first difference)
+// and " (second difference) encodings. Each channel keeps its own mode
+// until another prefix switches it.
+function parseTraceValues(text: string, channelCount: number): number[][] {
+  const modes: DifferenceMode[] = Array(channelCount).fill("!");
+  const previous: number[] = Array(channelCount).fill(0);
+  const velocity: number[] = Array(channelCount).fill(0);
+  const token = /[!'"]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[TF?*]/g;
+  const result: number[][] = [];
+
+  for (const [pointIndex, entry] of text.split(",").entries()) {
+    if (!entry.trim()) continue;
+    const values: number[] = [];
+    let pending: DifferenceMode | null = null;
+    let match: RegExpExecArray | null;
+    token.lastIndex = 0;
+
+    while ((match = token.exec(entry)) && values.length < channelCount) {
+      const value = match[0];
+      if (value === "!" || value === "'" || value === '"') {
+        pending = value;
+        continue;
+      }
+      const channel = values.length;
+      if (pending) modes[channel] = pending;
+      pending = null;
+
+      let next: number;
+      if (value === "?") {
+        next = previous[channel];
+      } else if (value === "*") {
+        next =
+          modes[channel] === "!"
+            ? previous[channel]
+            : previous[channel] + velocity[channel];
+      } else {
+        const number = value === "T" ? 1 : value === "F" ? 0 : Number(value);
+        if (modes[channel] === "'") {
+          next = previous[channel] + number;
+        } else if (modes[channel] === '"') {
+          next = previous[channel] + velocity[channel] + number;
+        } else {
+          next = number;
+        }
+      }
+
+      velocity[channel] = pointIndex === 0 ? 0 : next - previous[channel];
+      previous[channel] = next;
+      values.push(next);
+    }
+
+    if (values.length === channelCount) result.push(values);
+  }
+
+  return result;
+}
+
+// Reads <trace> elements from an InkML document into paths. Channels X and
+// Y become the points, F (force) the pressure and T the timestamps; brushes
+// give the colour, width and transparency. Traces in <traceGroup>s are read
+// in document order. Coordinates and widths are taken as canvas units
+// whatever their declared units.
+export function fromInkML(
+  inkml: string,
+  options: InkMLImportOptions = {}
+): PathData[] {
+  const root = findXmlElement(parseXml(inkml), "ink");
+  if (!root) {
+    throw new Error("No <ink> element found");
+  }
+
+  const definitions = new Map<string, XmlNode>();
+  const collect = (node: XmlNode): void => {
+    const id = node.attributes["xml:id"] ?? node.attributes.id;
+    if (id) definitions.set(id, node);
+    node.children.forEach(collect);
+  };
+  collect(root);
+
+  const lookup = (
+    reference: string | undefined,
+    name: string
+  ): XmlNode | undefined => {
+    const node = definitions.get(getReference(reference) ?? "");
+    return node && getLocalName(node) === name ? node : undefined;
+  };
+
+  const findChild = (node: XmlNode, name: string): XmlNode | undefined =>
+    node.children.find((child): boolean => getLocalName(child) === name);
+
+  // Epoch ms of a <timestamp>, following timestampRef and timeOffset
+  const resolveTimestamp = (
+    node: XmlNode | undefined,
+    depth: number = 0
+  ): number | undefined => {
+    if (!node || depth > 16) return undefined;
+    const time = Number(node.attributes.time);
+    if (node.attributes.time !== undefined && Number.isFinite(time)) {
+      return time;
+    }
+    const base = resolveTimestamp(
+      lookup(node.attributes.timestampRef, "timestamp"),
+      depth + 1
+    );
+    const offset = Number(node.attributes.timeOffset ?? 0);
+    return base !== undefined && Number.isFinite(offset)
+      ? base + offset
+      : undefined;
+  };
+
+  const resolveTraceFormat = (
+    context: XmlNode | undefined
+  ): XmlNode | undefined => {
+    if (!context) return undefined;
+    const inkSource =
+      findChild(context, "inkSource") ??
+      lookup(context.attributes.inkSourceRef, "inkSource");
+    return (
+      findChild(context, "traceFormat") ??
+      lookup(context.attributes.traceFormatRef, "traceFormat") ??
+      (inkSource ? findChild(inkSource, "traceFormat") : undefined)
+    );
+  };
+
+  const readChannels = (
+    traceFormat: XmlNode | undefined,
+    context: XmlNode | undefined
+  ): InkChannel[] => {
+    const channelNodes = traceFormat
+      ? traceFormat.children.filter(
+          (child): boolean => getLocalName(child) === "channel"
+        )
+      : [];
+    if (channelNodes.length === 0) {
+      return [
+        { name: "X", timeScale: 1 },
+        { name: "Y", timeScale: 1 },
+      ];
+    }
+    const contextTimestamp = context
+      ? (findChild(context, "timestamp") ??
+        lookup(context.attributes.timestampRef, "timestamp"))
+      : undefined;
+
+    return channelNodes.map((node): InkChannel => {
+      const { name = "", min, max, units, respectTo } = node.attributes;
+      const timestamp = lookup(respectTo, "timestamp") ?? contextTimestamp;
+      return {
+        name: name.toUpperCase(),
+        ...(min !== undefined && Number.isFinite(Number(min))
+          ? { min: Number(min) }
+          : {}),
+        ...(max !== undefined && Number.isFinite(Number(max))
+          ? { max: Number(max) }
+          : {}),
+        timeScale: units === "s" ? 1000 : units === "us" ? 0.001 : 1,
+        origin: resolveTimestamp(timestamp),
+      };
+    });
+  };
+
+  const readBrush = (
+    node: XmlNode | undefined,
+    depth: number = 0
+  ): InkBrush => {
+    if (!node || depth > 16) return {};
+    const brush: InkBrush = {
+      ...readBrush(lookup(node.attributes.brushRef, "brush"), depth + 1),
+    };
+    for (const property of node.children) {
+      if (getLocalName(property) !== "brushProperty") continue;
+      const { name, value } = property.attributes;
+      if (value === undefined) continue;
+      if (name === "color") brush.color = value;
+      else if (name === "width" && Number(value) > 0) {
+        brush.width = Number(value);
+      } else if (name === "transparency" && Number.isFinite(Number(value))) {
+        brush.transparency = Number(value);
+      } else if (name === "rasterOp") brush.rasterOp = value;
+    }
+    return brush;
+  };
+
+  const createPath = (
+    trace: XmlNode,
+    context: XmlNode | undefined,
+    brushNode: XmlNode | undefined
+  ): PathData | null => {
+    const channels = readChannels(resolveTraceFormat(context), context);
+    const x = channels.findIndex((c): boolean => c.name === "X");
+    const y = channels.findIndex((c): boolean => c.name === "Y");
+    if (x === -1 || y === -1) return null;
+    const f = channels.findIndex((c): boolean => c.name === "F");
+    const t = channels.findIndex((c): boolean => c.name === "T");
+
+    const rows = parseTraceValues(trace.text, channels.length).filter(
+      (row): boolean => Number.isFinite(row[x]) && Number.isFinite(row[y])
+    );
+    if (rows.length === 0) return null;
+
+    // Force without a declared range is scaled by the trace's peak
+    let toPressure: ((value: number) => number) | null = null;
+    if (f !== -1) {
+      const { min = 0, max } = channels[f];
+      const peak =
+        max ?? Math.max(1, ...rows.map((row): number => row[f] - min));
+      const range = max !== undefined ? max - min : peak;
+      toPressure = (value: number): number =>
+        range > 0 ? Math.max(0, Math.min(1, (value - min) / range)) : 0.5;
+    }
+
+    const points = rows.map(
+      (row): Point =>
+        toPressure ? [row[x], row[y], toPressure(row[f])] : [row[x], row[y]]
+    );
+
+    let timestamps: number[] | undefined;
+    if (t !== -1) {
+      const { timeScale, origin = 0 } = channels[t];
+      timestamps = rows.map((row): number => origin + row[t] * timeScale);
+    } else if (trace.attributes.timeOffset !== undefined) {
+      const contextTimestamp = context
+        ? (findChild(context, "timestamp") ??
+          lookup(context.attributes.timestampRef, "timestamp"))
+        : undefined;
+      const start =
+        (resolveTimestamp(contextTimestamp) ?? 0) +
+        Number(trace.attributes.timeOffset);
+      const duration = Number(trace.attributes.duration ?? 0);
+      if (Number.isFinite(start) && Number.isFinite(duration)) {
+        timestamps = spreadTimestamps(start, start + duration, points.length);
+      }
+    }
+
+    const brush = readBrush(brushNode);
+    const width = brush.width ?? options.width ?? DEFAULT_INKML_WIDTH;
+    const highlighter = brush.rasterOp === "mask-pen";
+    const strokeOptions = {
+      ...options.strokeOptions,
+      size: width,
+      ...(highlighter ? { thinning: 0 } : {}),
+    };
+    const opacity =
+      brush.transparency !== undefined
+        ? Math.max(0, Math.min(1, 1 - brush.transparency / 255))
+        : 1;
+
+    return {
+      id: generateId(),
+      points,
+      svgPath: processPoints(points, strokeOptions),
+      color: brush.color ?? options.color ?? "#000000",
+      width,
+      opacity,
+      strokeOptions,
+      ...(highlighter
+        ? { highlighter: true, blendMode: "multiply" as const }
+        : {}),
+      ...(options.layerId ? { layerId: options.layerId } : {}),
+      ...(timestamps ? { timestamps } : {}),
+      completed: true,
+    };
+  };
+
+  const paths: PathData[] = [];
+  // A <context> directly inside <ink> applies to the traces after it
+  let documentContext: XmlNode | undefined;
+
+  const visit = (
+    node: XmlNode,
+    contextRef: string | undefined,
+    brushRef: string | undefined
+  ): void => {
+    for (const child of node.children) {
+      const name = getLocalName(child);
+      if (name === "context" && node === root) {
+        documentContext =
+          child.attributes.contextRef && child.children.length === 0
+            ? lookup(child.attributes.contextRef, "context")
+            : child;
+      } else if (name === "traceGroup") {
+        visit(
+          child,
+          child.attributes.contextRef ?? contextRef,
+          child.attributes.brushRef ?? brushRef
+        );
+      } else if (name === "trace") {
+        const context =
+          lookup(child.attributes.contextRef ?? contextRef, "context") ??
+          documentContext;
+        const brushNode =
+          lookup(child.attributes.brushRef ?? brushRef, "brush") ??
+          (context
+            ? (findChild(context, "brush") ??
+              lookup(context.attributes.brushRef, "brush"))
+            : undefined);
+        const path = createPath(child, context, brushNode);
+        if (path) paths.push(path);
+      }
+    }
+  };
+  visit(root, undefined, undefined);
+
+  return paths;
+}
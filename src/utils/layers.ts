@@ -0,0 +1,67 @@
+import type { CanvasContent, Layer, LayerContent } from "../types";
+
+// Layer that paths and texts without a layerId belong to
+export const DEFAULT_LAYER_ID = "default";
+
+export function createLayer(id: string, name: string): Layer {
+  return { id, name, visible: true, locked: false, opacity: 1 };
+}
+
+export function createDefaultLayers(): Layer[] {
+  return [createLayer(DEFAULT_LAYER_ID, "Layer 1")];
+}
+
+// Elements pointing at a layer that no longer exists fall back to the bottom
+// layer so they never disappear silently
+export function resolveLayerId(
+  item: { layerId?: string },
+  layers: Layer[]
+): string | undefined {
+  const id = item.layerId ?? DEFAULT_LAYER_ID;
+  return layers.some((layer): boolean => layer.id === id) ? id : layers[0]?.id;
+}
+
+export function groupByLayer<T extends { layerId?: string }>(
+  items: T[],
+  layers: Layer[]
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>(
+    layers.map((layer): [string, T[]] => [layer.id, []])
+  );
+  for (const item of items) {
+    const layerId = resolveLayerId(item, layers);
+    if (layerId) groups.get(layerId)?.push(item);
+  }
+  return groups;
+}
+
+export function getContentByLayer(content: CanvasContent): LayerContent[] {
+  const paths = groupByLayer(content.paths, content.layers);
+  const texts = groupByLayer(content.texts, content.layers);
+  return content.layers.map(
+    (layer): LayerContent => ({
+      layer,
+      paths: paths.get(layer.id) ?? [],
+      texts: texts.get(layer.id) ?? [],
+    })
+  );
+}
+
+// Ids of the layers whose content can be drawn on, erased or selected
+export function getEditableLayerIds(layers: Layer[]): Set<string> {
+  return new Set(
+    layers
+      .filter((layer): boolean => layer.visible && !layer.locked)
+      .map((layer): string => layer.id)
+  );
+}
+
+export function moveLayer(layers: Layer[], id: string, index: number): Layer[] {
+  const from = layers.findIndex((layer): boolean => layer.id === id);
+  if (from === -1) return layers;
+
+  const result = [...layers];
+  const [layer] = result.splice(from, 1);
+  result.splice(Math.max(0, Math.min(index, result.length)), 0, layer);
+  return result;
+}
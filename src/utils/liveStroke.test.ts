@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { Point, StrokeOptions } from "../types";
+import { createLiveStroke, updateLiveStroke } from "./liveStroke";
+import { processPoints } from "./path";
+
+// Deterministic stroke with gentle turns, sharp reversals and points that
+// don't move
+function createStroke(count: number, withPressure: boolean): Point[] {
+  let seed = 7;
+  const random = (): number =>
+    (seed = (seed * 16807) % 2147483647) / 2147483647;
+  const points: Point[] = [];
+  let x = 100;
+  let y = 100;
+  let angle = 0;
+
+  for (let i = 0; i < count; i++) {
+    angle +=
+      i % 37 === 36 ? Math.PI * (0.8 + random() * 0.4) : (random() - 0.5) * 0.6;
+    const step = i % 11 === 10 ? 0 : random() * 8;
+    x += Math.cos(angle) * step;
+    y += Math.sin(angle) * step;
+    points.push(withPressure ? [x, y, random()] : [x, y]);
+  }
+  return points;
+}
+
+const OPTIONS: Record<string, StrokeOptions> = {
+  default: {},
+  thin: { size: 12, thinning: 0.7, smoothing: 0.3, streamline: 0.2 },
+  flat: {
+    size: 20,
+    thinning: 0,
+    start: { taper: 0, cap: false },
+    end: { taper: 0, cap: false },
+  },
+  tapered: { size: 6, thinning: 0.5, start: { taper: 30 }, end: { taper: 40 } },
+};
+
+describe("updateLiveStroke", (): void => {
+  for (const [name, options] of Object.entries(OPTIONS)) {
+    for (const withPressure of [false, true]) {
+      it(`matches processPoints point by point (${name}${withPressure ? ", pressure" : ""})`, (): void => {
+        const stroke = createStroke(150, withPressure);
+        const state = createLiveStroke();
+
+        for (let i = 1; i <= stroke.length; i++) {
+          const inputs = stroke.slice(0, i);
+          expect(updateLiveStroke(state, inputs, options)).toBe(
+            processPoints(inputs, options)
+          );
+        }
+      });
+    }
+  }
+
+  it("matches processPoints with a replaced start point", (): void => {
+    const stroke = createStroke(80, true);
+    const start: Point = [100, 100, 0.5];
+    const state = createLiveStroke();
+
+    for (let i = 2; i <= stroke.length; i++) {
+      const inputs = stroke.slice(0, i);
+      expect(updateLiveStroke(state, inputs, {}, start)).toBe(
+        processPoints([start, ...inputs.slice(1)], {})
+      );
+    }
+  });
+
+  it("keeps the settled outline between updates", (): void => {
+    const stroke = createStroke(300, true);
+    const state = createLiveStroke();
+    let outlined = 0;
+    let left = [...state.left];
+    let right = [...state.right];
+
+    for (let i = 1; i <= stroke.length; i++) {
+      updateLiveStroke(state, stroke.slice(0, i), OPTIONS.tapered);
+
+      expect(state.outlined).toBeGreaterThanOrEqual(outlined);
+      // Earlier outline points are the same objects, not recomputed copies
+      expect(
+        left.every((point, index): boolean => state.left[index] === point)
+      ).toBe(true);
+      expect(
+        right.every((point, index): boolean => state.right[index] === point)
+      ).toBe(true);
+      outlined = state.outlined;
+      left = [...state.left];
+      right = [...state.right];
+    }
+
+    // Most of a long stroke has settled
+    expect(state.outlined).toBeGreaterThan(stroke.length / 2);
+    expect(state.left.length).toBeGreaterThan(0);
+  });
+
+  it("starts over for a new stroke", (): void => {
+    const first = createStroke(60, false);
+    const second = first.map(([x, y]): Point => [x + 50, y]);
+    const state = createLiveStroke();
+    updateLiveStroke(state, first, {});
+
+    expect(updateLiveStroke(state, second, {})).toBe(processPoints(second, {}));
+  });
+});
@@ -0,0 +1,665 @@
+import type { Point, StrokeOptions } from "../types";
+
+// Incremental perfect-freehand outline for the stroke being drawn, run as a
+// worklet on each new point. Stroke points and outline points that can no
+// longer change are kept between updates along with their SVG text, so only
+// the tail of the stroke is recomputed. The result is the same string
+// processPoints returns for the same points.
+
+type Vec = [number, number];
+
+interface StrokePoint {
+  point: Vec;
+  pressure: number;
+  vector: Vec;
+  distance: number;
+  runningLength: number;
+}
+
+// Running values of the outline pass, from one stroke point to the next
+interface OutlineCursor {
+  pressure: number;
+  vector: Vec;
+  // Last points pushed to each side
+  left: Vec;
+  right: Vec;
+  inCorner: boolean;
+  firstRadius: number | undefined;
+  radius: number;
+}
+
+export interface LiveStrokeState {
+  first: Point | null;
+  // Input points folded into the committed stroke points
+  consumed: number;
+  // Streamlined points, all final; the newest input's point is added per
+  // update and removed again
+  points: StrokePoint[];
+  length: number;
+  started: boolean;
+  // Outline of the stroke points before `outlined`, which is final
+  outlined: number;
+  cursor: OutlineCursor | null;
+  left: Vec[];
+  right: Vec[];
+  // SVG text for the final outline points, left in order and right in
+  // reverse, and how many points each covers
+  leftSvg: string;
+  rightSvg: string;
+  leftSvgCount: number;
+  rightSvgCount: number;
+}
+
+interface ResolvedOptions {
+  size: number;
+  thinning: number;
+  smoothing: number;
+  streamline: number;
+  easing: (t: number) => number;
+  startTaper: number;
+  startCap: boolean;
+  endTaper: number;
+  endCap: boolean;
+}
+
+// perfect-freehand's constants
+const RATE_OF_PRESSURE_CHANGE = 0.275;
+const FIXED_PI = Math.PI + 1e-4;
+// Points this close to the end are skipped
+const END_SKIP_LENGTH = 3;
+// Leading points that set the starting pressure
+const PRESSURE_SAMPLE = 10;
+
+// Same defaults as processPoints
+function resolveOptions(options: StrokeOptions): ResolvedOptions {
+  "worklet";
+  const start = options.start || { taper: 0, cap: true };
+  const end = options.end || { taper: 0, cap: true };
+  return {
+    size: options.size || 8,
+    thinning: options.thinning ?? 0.5,
+    smoothing: options.smoothing ?? 0.5,
+    streamline: options.streamline ?? 0.5,
+    easing: options.easing || ((t: number): number => t),
+    startTaper: start.taper || 0,
+    startCap: start.cap ?? true,
+    endTaper: end.taper || 0,
+    endCap: end.cap ?? true,
+  };
+}
+
+function lerp(a: Vec, b: Vec | Point, t: number): Vec {
+  "worklet";
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+function perpendicular(v: Vec): Vec {
+  "worklet";
+  return [v[1], -v[0]];
+}
+
+function dot(a: Vec, b: Vec): number {
+  "worklet";
+  return a[0] * b[0] + a[1] * b[1];
+}
+
+function offsetBy(p: Vec, v: Vec, scale: number): Vec {
+  "worklet";
+  return [p[0] + v[0] * scale, p[1] + v[1] * scale];
+}
+
+function rotateAround(p: Vec, center: Vec, angle: number): Vec {
+  "worklet";
+  const sin = Math.sin(angle);
+  const cos = Math.cos(angle);
+  const x = p[0] - center[0];
+  const y = p[1] - center[1];
+  return [x * cos - y * sin + center[0], x * sin + y * cos + center[1]];
+}
+
+function getRadius(options: ResolvedOptions, pressure: number): number {
+  "worklet";
+  const { size, thinning, easing } = options;
+  return size * easing(0.5 - thinning * (0.5 - pressure));
+}
+
+function simulatePressure(
+  previous: number,
+  distance: number,
+  size: number
+): number {
+  "worklet";
+  const sp = Math.min(1, distance / size);
+  const rp = Math.min(1, 1 - sp);
+  return Math.min(
+    1,
+    previous + (rp - previous) * (sp * RATE_OF_PRESSURE_CHANGE)
+  );
+}
+
+function createStrokePoint(input: Point, pressure: number): StrokePoint {
+  "worklet";
+  return {
+    point: [input[0], input[1]],
+    pressure: input[2] !== undefined && input[2] >= 0 ? input[2] : pressure,
+    vector: [1, 1],
+    distance: 0,
+    runningLength: 0,
+  };
+}
+
+export function createLiveStroke(): LiveStrokeState {
+  "worklet";
+  return {
+    first: null,
+    consumed: 0,
+    points: [],
+    length: 0,
+    started: false,
+    outlined: 0,
+    cursor: null,
+    left: [],
+    right: [],
+    leftSvg: "",
+    rightSvg: "",
+    leftSvgCount: 0,
+    rightSvgCount: 0,
+  };
+}
+
+// Streamlines an input point toward from the last kept one. The point is
+// null when it's skipped.
+function streamlinePoint(
+  last: StrokePoint,
+  input: Point,
+  length: number,
+  started: boolean,
+  isLast: boolean,
+  options: ResolvedOptions
+): { point: StrokePoint | null; length: number; started: boolean } {
+  "worklet";
+  const point = lerp(last.point, input, 0.15 + (1 - options.streamline) * 0.85);
+  if (point[0] === last.point[0] && point[1] === last.point[1]) {
+    return { point: null, length, started };
+  }
+  const distance = Math.hypot(
+    point[1] - last.point[1],
+    point[0] - last.point[0]
+  );
+  const runningLength = length + distance;
+  // Points before the stroke is a brush size long are dropped
+  if (!isLast && !started && runningLength < options.size) {
+    return { point: null, length: runningLength, started };
+  }
+  const dx = last.point[0] - point[0];
+  const dy = last.point[1] - point[1];
+  const norm = Math.hypot(dx, dy);
+  return {
+    point: {
+      ...createStrokePoint(input, 0.5),
+      point,
+      vector: [dx / norm, dy / norm],
+      distance,
+      runningLength,
+    },
+    length: runningLength,
+    started: started || !isLast,
+  };
+}
+
+// Stroke points for short inputs, which getStroke pads first
+function getShortStrokePoints(
+  first: Point,
+  inputs: Point[],
+  options: ResolvedOptions
+): StrokePoint[] {
+  "worklet";
+  const padded: Point[] = [first];
+  if (inputs.length === 2) {
+    for (let i = 1; i < 5; i++)
+      padded.push(lerp(first as Vec, inputs[1], i / 4));
+  } else {
+    padded.push([first[0] + 1, first[1] + 1, ...first.slice(2)] as Point);
+  }
+
+  const points = [createStrokePoint(first, 0.25)];
+  let length = 0;
+  let started = false;
+  for (let c = 1; c < padded.length; c++) {
+    const next = streamlinePoint(
+      points[points.length - 1],
+      padded[c],
+      length,
+      started,
+      c === padded.length - 1,
+      options
+    );
+    length = next.length;
+    started = next.started;
+    if (next.point) points.push(next.point);
+  }
+  return points;
+}
+
+// Folds every input but the newest into the committed stroke points, then
+// adds the newest one's point on top. Returns whether it was added.
+function addStrokePoints(
+  state: LiveStrokeState,
+  inputs: Point[],
+  options: ResolvedOptions
+): boolean {
+  "worklet";
+  for (; state.consumed < inputs.length - 1; state.consumed++) {
+    const next = streamlinePoint(
+      state.points[state.points.length - 1],
+      inputs[state.consumed],
+      state.length,
+      state.started,
+      false,
+      options
+    );
+    state.length = next.length;
+    state.started = next.started;
+    if (next.point) state.points.push(next.point);
+  }
+
+  const tail = streamlinePoint(
+    state.points[state.points.length - 1],
+    inputs[inputs.length - 1],
+    state.length,
+    state.started,
+    true,
+    options
+  );
+  if (tail.point) state.points.push(tail.point);
+  return !!tail.point;
+}
+
+function createCursor(
+  points: StrokePoint[],
+  options: ResolvedOptions
+): OutlineCursor {
+  "worklet";
+  let pressure = points[0].pressure;
+  const count = Math.min(points.length, PRESSURE_SAMPLE);
+  for (let i = 0; i < count; i++) {
+    const simulated = simulatePressure(
+      pressure,
+      points[i].distance,
+      options.size
+    );
+    pressure = (pressure + simulated) / 2;
+  }
+  return {
+    pressure,
+    vector: points[0].vector,
+    left: points[0].point,
+    right: points[0].point,
+    inCorner: false,
+    firstRadius: undefined,
+    radius: getRadius(options, points[points.length - 1].pressure),
+  };
+}
+
+// Pushes the outline of stroke points [from, to) to each side, as the main
+// loop of perfect-freehand's getStrokeOutlinePoints does
+function traceOutline(
+  points: StrokePoint[],
+  from: number,
+  to: number,
+  cursor: OutlineCursor,
+  left: Vec[],
+  right: Vec[],
+  options: ResolvedOptions
+): void {
+  "worklet";
+  const { size, thinning, smoothing, startTaper, endTaper } = options;
+  const last = points.length - 1;
+  const total = points[last].runningLength;
+  const minDistance = Math.pow(size * smoothing, 2);
+
+  for (let r = from; r < to; r++) {
+    const { point, vector, distance, runningLength } = points[r];
+    if (r < last && total - runningLength < END_SKIP_LENGTH) continue;
+
+    let { pressure } = points[r];
+    let radius = size / 2;
+    if (thinning) {
+      pressure = simulatePressure(cursor.pressure, distance, size);
+      radius = getRadius(options, pressure);
+    }
+    if (cursor.firstRadius === undefined) cursor.firstRadius = radius;
+
+    const fromStart = runningLength / startTaper;
+    const fromEnd = (total - runningLength) / endTaper - 1;
+    const taperStart =
+      runningLength < startTaper ? fromStart * (2 - fromStart) : 1;
+    const taperEnd =
+      total - runningLength < endTaper ? fromEnd * fromEnd * fromEnd + 1 : 1;
+    radius = Math.max(0.01, radius * Math.min(taperStart, taperEnd));
+    cursor.radius = radius;
+
+    const nextVector = (r < last ? points[r + 1] : points[r]).vector;
+    const nextDot = r < last ? dot(vector, nextVector) : 1;
+    const isNextSharp = nextDot < 0;
+
+    // Sharp corners get a rounded cap on each side
+    if ((dot(vector, cursor.vector) < 0 && !cursor.inCorner) || isNextSharp) {
+      const offset = perpendicular(cursor.vector);
+      const step = 1 / 13;
+      for (let t = 0; t <= 1; t += step) {
+        cursor.left = rotateAround(
+          offsetBy(point, offset, -radius),
+          point,
+          FIXED_PI * t
+        );
+        left.push(cursor.left);
+        cursor.right = rotateAround(
+          offsetBy(point, offset, radius),
+          point,
+          FIXED_PI * -t
+        );
+        right.push(cursor.right);
+      }
+      if (isNextSharp) cursor.inCorner = true;
+      continue;
+    }
+    cursor.inCorner = false;
+
+    if (r === last) {
+      const offset = perpendicular(vector);
+      left.push(offsetBy(point, offset, -radius));
+      right.push(offsetBy(point, offset, radius));
+      continue;
+    }
+
+    // Points closer than the smoothing distance to the last one are skipped
+    const offset = perpendicular(lerp(nextVector, vector, nextDot));
+    const leftPoint = offsetBy(point, offset, -radius);
+    const rightPoint = offsetBy(point, offset, radius);
+    if (r <= 1 || distanceSquared(cursor.left, leftPoint) > minDistance) {
+      left.push(leftPoint);
+      cursor.left = leftPoint;
+    }
+    if (r <= 1 || distanceSquared(cursor.right, rightPoint) > minDistance) {
+      right.push(rightPoint);
+      cursor.right = rightPoint;
+    }
+    cursor.pressure = pressure;
+    cursor.vector = vector;
+  }
+}
+
+function distanceSquared(a: Vec, b: Vec): number {
+  "worklet";
+  const dx = a[0] - b[0];
+  const dy = a[1] - b[1];
+  return dx * dx + dy * dy;
+}
+
+// Start and end caps, or the dot drawn for a single stroke point
+function getCaps(
+  points: StrokePoint[],
+  firstLeft: Vec,
+  firstRight: Vec,
+  cursor: OutlineCursor,
+  options: ResolvedOptions
+): { start: Vec[]; end: Vec[]; dot: Vec[] | null } {
+  "worklet";
+  const { startTaper, endTaper, startCap, endCap } = options;
+  const first = points[0].point;
+  const last = points[points.length - 1];
+  const radius = cursor.radius;
+  const start: Vec[] = [];
+  const end: Vec[] = [];
+
+  if (points.length === 1) {
+    if (startTaper || endTaper) return { start, end, dot: null };
+    const away: Vec = [first[0] + 1, first[1] + 1];
+    const direction = perpendicular([first[0] - away[0], first[1] - away[1]]);
+    const norm = Math.hypot(direction[0], direction[1]);
+    const from = offsetBy(
+      first,
+      [direction[0] / norm, direction[1] / norm],
+      -(cursor.firstRadius || radius)
+    );
+    const dotPoints: Vec[] = [];
+    for (let step = 1 / 13, t = step; t <= 1; t += step) {
+      dotPoints.push(rotateAround(from, first, FIXED_PI * 2 * t));
+    }
+    return { start, end, dot: dotPoints };
+  }
+
+  if (!startTaper) {
+    if (startCap) {
+      for (let step = 1 / 13, t = step; t <= 1; t += step) {
+        start.push(rotateAround(firstRight, first, FIXED_PI * t));
+      }
+    } else {
+      const across: Vec = [
+        firstLeft[0] - firstRight[0],
+        firstLeft[1] - firstRight[1],
+      ];
+      start.push(
+        offsetBy(first, across, -0.5),
+        offsetBy(first, across, -0.51),
+        offsetBy(first, across, 0.51),
+        offsetBy(first, across, 0.5)
+      );
+    }
+  }
+
+  const direction: Vec = [-last.vector[1], last.vector[0]];
+  if (endTaper) {
+    end.push(last.point);
+  } else if (endCap) {
+    const from = offsetBy(last.point, direction, radius);
+    for (let step = 1 / 29, t = step; t < 1; t += step) {
+      end.push(rotateAround(from, last.point, FIXED_PI * 3 * t));
+    }
+  } else {
+    end.push(
+      offsetBy(last.point, direction, radius),
+      offsetBy(last.point, direction, radius * 0.99),
+      offsetBy(last.point, direction, -(radius * 0.99)),
+      offsetBy(last.point, direction, -radius)
+    );
+  }
+  return { start, end, dot: null };
+}
+
+// "x y midX midY" for an outline point and the one after it
+function svgToken(point: Vec, next: Vec): string {
+  "worklet";
+  return `${point[0]} ${point[1]} ${(point[0] + next[0]) / 2} ${(point[1] + next[1]) / 2}`;
+}
+
+// Same as getSvgPathFromStroke
+function getClosedSvgPath(outline: Vec[]): string {
+  "worklet";
+  if (outline.length === 0) return "";
+  const tokens: string[] = [];
+  for (let i = 0; i < outline.length; i++) {
+    tokens.push(svgToken(outline[i], outline[(i + 1) % outline.length]));
+  }
+  return `M ${outline[0][0]} ${outline[0][1]} Q ${tokens.join(" ")} Z`;
+}
+
+// The outline runs down the left side, around the end cap, back up the
+// right side and around the start cap. Tokens for final points on either
+// side are formatted once and kept in the state.
+function getOutlineSvgPath(
+  state: LiveStrokeState,
+  tailLeft: Vec[],
+  tailRight: Vec[],
+  start: Vec[],
+  end: Vec[]
+): string {
+  "worklet";
+  const leftCount = state.left.length + tailLeft.length;
+  const rightCount = state.right.length + tailRight.length;
+  const leftAt = (i: number): Vec =>
+    i < state.left.length ? state.left[i] : tailLeft[i - state.left.length];
+  const rightAt = (i: number): Vec =>
+    i < state.right.length ? state.right[i] : tailRight[i - state.right.length];
+  if (leftCount === 0 || rightCount === 0) {
+    return getClosedSvgPath([
+      ...state.left,
+      ...tailLeft,
+      ...end,
+      ...[...state.right, ...tailRight].reverse(),
+      ...start,
+    ]);
+  }
+
+  // Left tokens up to the last final point, which needs the point after it
+  for (; state.leftSvgCount < state.left.length - 1; state.leftSvgCount++) {
+    const i = state.leftSvgCount;
+    const token = svgToken(state.left[i], state.left[i + 1]);
+    state.leftSvg = state.leftSvg ? `${state.leftSvg} ${token}` : token;
+  }
+  // Right tokens from the second point on, each pointing back to the one
+  // before it; newer ones go in front
+  let added = "";
+  for (; state.rightSvgCount < state.right.length - 1; state.rightSvgCount++) {
+    const i = state.rightSvgCount + 1;
+    const token = svgToken(state.right[i], state.right[i - 1]);
+    added = added ? `${token} ${added}` : token;
+  }
+  if (added) {
+    state.rightSvg = state.rightSvg ? `${added} ${state.rightSvg}` : added;
+  }
+
+  // Everything between the cached runs, ending where the right run starts
+  const middle: Vec[] = [];
+  for (let i = state.leftSvgCount; i < leftCount; i++) middle.push(leftAt(i));
+  middle.push(...end);
+  for (let i = rightCount - 1; i > state.rightSvgCount; i--) {
+    middle.push(rightAt(i));
+  }
+  const tokens: string[] = state.leftSvg ? [state.leftSvg] : [];
+  for (let i = 0; i < middle.length; i++) {
+    tokens.push(
+      svgToken(
+        middle[i],
+        i + 1 < middle.length ? middle[i + 1] : rightAt(state.rightSvgCount)
+      )
+    );
+  }
+  if (state.rightSvg) tokens.push(state.rightSvg);
+
+  // Then the first right point, the start cap and back to the beginning
+  const closing = [rightAt(0), ...start];
+  for (let i = 0; i < closing.length; i++) {
+    tokens.push(
+      svgToken(closing[i], i + 1 < closing.length ? closing[i + 1] : leftAt(0))
+    );
+  }
+  const first = leftAt(0);
+  return `M ${first[0]} ${first[1]} Q ${tokens.join(" ")} Z`;
+}
+
+// Outline of the stroke so far as an SVG path. The state belongs to one
+// stroke at a time and is reset when a different stroke comes in. start
+// replaces the first input point, e.g. snapped to the paper grid.
+export function updateLiveStroke(
+  state: LiveStrokeState,
+  inputs: Point[],
+  options: StrokeOptions,
+  start?: Point | null
+): string {
+  "worklet";
+  if (inputs.length < 2) return "";
+  const resolved = resolveOptions(options);
+  if (resolved.size <= 0) return "";
+
+  if (state.first !== inputs[0] || inputs.length <= state.consumed) {
+    Object.assign(state, createLiveStroke());
+    state.first = inputs[0];
+    state.consumed = 1;
+    state.points = [createStrokePoint(start ?? inputs[0], 0.25)];
+  }
+
+  const isShort = inputs.length <= 2;
+  const hasTail = !isShort && addStrokePoints(state, inputs, resolved);
+  const points = isShort
+    ? getShortStrokePoints(start ?? inputs[0], inputs, resolved)
+    : state.points;
+  const finalCount = hasTail ? points.length - 1 : points.length;
+  points[0].vector = points[1]?.vector || [0, 0];
+
+  // Once the points that set the starting pressure are final, the outline
+  // is final up to the points that the end of the stroke still affects
+  const settled = !isShort && finalCount > PRESSURE_SAMPLE;
+  if (!settled) {
+    state.cursor = null;
+  } else if (!state.cursor) {
+    state.cursor = createCursor(points, resolved);
+    state.outlined = 0;
+  }
+
+  if (state.cursor) {
+    const total = points[points.length - 1].runningLength;
+    const reach = Math.max(END_SKIP_LENGTH, resolved.endTaper);
+    let stable = state.outlined;
+    while (
+      stable + 1 < finalCount &&
+      total - points[stable].runningLength >= reach
+    ) {
+      stable++;
+    }
+    traceOutline(
+      points,
+      state.outlined,
+      stable,
+      state.cursor,
+      state.left,
+      state.right,
+      resolved
+    );
+    state.outlined = stable;
+  }
+
+  const cursor = state.cursor
+    ? { ...state.cursor }
+    : createCursor(points, resolved);
+  const from = state.cursor ? state.outlined : 0;
+  const tailLeft: Vec[] = [];
+  const tailRight: Vec[] = [];
+  traceOutline(
+    points,
+    from,
+    points.length,
+    cursor,
+    tailLeft,
+    tailRight,
+    resolved
+  );
+
+  const firstLeft = state.left[0] ?? tailLeft[0];
+  const firstRight = state.right[0] ?? tailRight[0];
+  const caps = getCaps(points, firstLeft, firstRight, cursor, resolved);
+
+  let svgPath: string;
+  if (caps.dot) {
+    svgPath = getClosedSvgPath(caps.dot);
+  } else if (state.cursor) {
+    svgPath = getOutlineSvgPath(
+      state,
+      tailLeft,
+      tailRight,
+      caps.start,
+      caps.end
+    );
+  } else {
+    svgPath = getClosedSvgPath([
+      ...tailLeft,
+      ...caps.end,
+      ...tailRight.reverse(),
+      ...caps.start,
+    ]);
+  }
+
+  if (hasTail) state.points.pop();
+  return svgPath;
+}
@@ -0,0 +1,105 @@
+import type { CanvasRect, PaperOptions, Point } from "../types";
+
+export const DEFAULT_PAPER_SPACING = 24;
+export const DEFAULT_PAPER_COLOR = "#d7dde5";
+export const DEFAULT_MARGIN_COLOR = "#f28b82";
+
+const SQRT3 = Math.sqrt(3);
+
+// Centreline geometry of the paper within the bounds, meant to be stroked
+// with round caps. Dots are zero-length segments, which round caps draw as
+// circles. Runs on the UI thread while zooming.
+export function getPaperSvgPath(
+  paper: PaperOptions,
+  bounds: CanvasRect
+): string {
+  "worklet";
+  const spacing = paper.spacing ?? DEFAULT_PAPER_SPACING;
+  if (spacing <= 0) return "";
+
+  const left = bounds.x;
+  const top = bounds.y;
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const parts: string[] = [];
+
+  const horizontal = (step: number): void => {
+    for (let i = Math.floor(top / step); i * step <= bottom; i++) {
+      parts.push(`M${left} ${i * step}L${right} ${i * step}`);
+    }
+  };
+
+  switch (paper.type) {
+    case "lines":
+      horizontal(spacing);
+      break;
+    case "grid":
+      horizontal(spacing);
+      for (let i = Math.floor(left / spacing); i * spacing <= right; i++) {
+        parts.push(`M${i * spacing} ${top}L${i * spacing} ${bottom}`);
+      }
+      break;
+    case "dots":
+      for (let j = Math.floor(top / spacing); j * spacing <= bottom; j++) {
+        for (let i = Math.floor(left / spacing); i * spacing <= right; i++) {
+          parts.push(`M${i * spacing} ${j * spacing}l0 0`);
+        }
+      }
+      break;
+    case "isometric": {
+      // Triangular grid: horizontal rows plus lines at +/-60 degrees
+      const rowHeight = (spacing * SQRT3) / 2;
+      horizontal(rowHeight);
+      const reach = Math.max(Math.abs(top), Math.abs(bottom)) / SQRT3;
+      const first = Math.floor((left - reach) / spacing);
+      const last = Math.ceil((right + reach) / spacing);
+      for (let i = first; i <= last; i++) {
+        const x = i * spacing;
+        parts.push(
+          `M${x + top / SQRT3} ${top}L${x + bottom / SQRT3} ${bottom}`
+        );
+        parts.push(
+          `M${x - top / SQRT3} ${top}L${x - bottom / SQRT3} ${bottom}`
+        );
+      }
+      break;
+    }
+  }
+  return parts.join("");
+}
+
+// Nearest grid intersection (or dot). Ruled paper only snaps vertically.
+export function snapToPaper(point: Point, paper: PaperOptions): Point {
+  const spacing = paper.spacing ?? DEFAULT_PAPER_SPACING;
+  if (spacing <= 0) return point;
+
+  let x = point[0];
+  let y = point[1];
+
+  if (paper.type === "isometric") {
+    const rowHeight = (spacing * SQRT3) / 2;
+    const row = Math.round(y / rowHeight);
+    // Odd rows are offset by half a cell; also check the neighbouring rows
+    // since the nearest lattice point may lie on one of them
+    let best: [number, number] = [x, y];
+    let bestDistance = Infinity;
+    for (let r = row - 1; r <= row + 1; r++) {
+      const offset = Math.abs(r) % 2 === 1 ? spacing / 2 : 0;
+      const cx = Math.round((x - offset) / spacing) * spacing + offset;
+      const cy = r * rowHeight;
+      const distance = Math.hypot(cx - x, cy - y);
+      if (distance < bestDistance) {
+        best = [cx, cy];
+        bestDistance = distance;
+      }
+    }
+    [x, y] = best;
+  } else {
+    if (paper.type !== "lines") {
+      x = Math.round(x / spacing) * spacing;
+    }
+    y = Math.round(y / spacing) * spacing;
+  }
+
+  return point[2] !== undefined ? [x, y, point[2]] : [x, y];
+}
@@ -24,8 +24,17 @@ export function processPoints(points: Point[], options: StrokeOptions): string {
 
 export function simplifyPath(points: Point[], tolerance: number = 1): Point[] {
   if (points.length <= 2) return points;
+  return getSimplifiedIndices(points, tolerance).map((i): Point => points[i]);
+}
+
+// Indices of the points simplifyPath keeps, for data stored alongside them
+export function getSimplifiedIndices(
+  points: Point[],
+  tolerance: number = 1
+): number[] {
+  if (points.length <= 2) return points.map((_, i): number => i);
 
-  const simplified: Point[] = [points[0]];
+  const indices: number[] = [0];
   let prevPoint = points[0];
 
   for (let i = 1; i < points.length - 1; i++) {
@@ -36,13 +45,13 @@ export function simplifyPath(points: Point[], tolerance: number = 1): Point[] {
     );
 
     if (distance >= tolerance) {
-      simplified.push(point);
+      indices.push(i);
       prevPoint = point;
     }
   }
 
-  simplified.push(points[points.length - 1]);
-  return simplified;
+  indices.push(points.length - 1);
+  return indices;
 }
 
 export function getPathBounds(points: Point[]): {
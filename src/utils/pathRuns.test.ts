@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { PathData } from "../types";
+import { splitPathRuns } from "./pathRuns";
+
+const STROKE_COUNTS = [10, 1000, 5000];
+
+function createStrokes(count: number): PathData[] {
+  return Array.from(
+    { length: count },
+    (_, i): PathData => ({
+      id: `stroke-${i}`,
+      points: [
+        [i, 0],
+        [i, 10],
+      ],
+      svgPath: `M${i} 0L${i} 10`,
+      color: "#000000",
+      width: 4,
+      opacity: 1,
+      completed: true,
+      // Highlighters are drawn beneath the ink of the same layer
+      ...(i % 7 === 0 ? { highlighter: true } : {}),
+    })
+  );
+}
+
+// The canvas renders one node per run or live path, so these counts are the
+// size of a layer's render tree
+describe("render tree size", (): void => {
+  it.each(STROKE_COUNTS)(
+    "stays at one segment for %i committed strokes",
+    (count): void => {
+      const runs = splitPathRuns(createStrokes(count), new Set());
+
+      expect(runs).toHaveLength(1);
+      expect(runs[0].type === "run" && runs[0].paths).toHaveLength(count);
+    }
+  );
+
+  it.each(STROKE_COUNTS)(
+    "stays at three segments with a live stroke among %i strokes",
+    (count): void => {
+      const strokes = createStrokes(count);
+      const live = strokes[Math.floor(count / 2) + 1];
+      const runs = splitPathRuns(strokes, new Set([live.id]));
+
+      expect(runs.map((run): string => run.type)).toEqual([
+        "run",
+        "path",
+        "run",
+      ]);
+      expect(runs[1]).toEqual({ type: "path", path: live });
+    }
+  );
+});
@@ -0,0 +1,32 @@
+import type { PathData } from "../types";
+import { sortPathsForRendering } from "./svg";
+
+// Paths in drawing order, grouped into runs that can be flattened together.
+// Live paths break the runs and are drawn on their own.
+type PathRun =
+  | { type: "run"; paths: PathData[] }
+  | { type: "path"; path: PathData };
+
+export function splitPathRuns(
+  paths: PathData[],
+  liveIds: ReadonlySet<string>
+): PathRun[] {
+  const runs: PathRun[] = [];
+  let run: PathData[] = [];
+  const flush = (): void => {
+    if (run.length === 0) return;
+    runs.push({ type: "run", paths: run });
+    run = [];
+  };
+
+  for (const path of sortPathsForRendering(paths)) {
+    if (liveIds.has(path.id)) {
+      flush();
+      runs.push({ type: "path", path });
+    } else {
+      run.push(path);
+    }
+  }
+  flush();
+  return runs;
+}
@@ -0,0 +1,451 @@
+import type {
+  CanvasRect,
+  Layer,
+  PathData,
+  PdfPageSize,
+  PdfPageSizeName,
+  StrokeBlendMode,
+  TextElement,
+} from "../types";
+import { getContentByLayer } from "./layers";
+import { sortPathsForRendering } from "./svg";
+import { arcsToCubics, parseSvgPathCommands } from "./svgPath";
+import { getTextBox, getTextLines, TEXT_LINE_HEIGHT } from "./text";
+
+// Page sizes in points (1/72 inch), portrait
+export const PDF_PAGE_SIZES: Record<
+  PdfPageSizeName,
+  { width: number; height: number }
+> = {
+  a3: { width: 841.89, height: 1190.55 },
+  a4: { width: 595.28, height: 841.89 },
+  a5: { width: 419.53, height: 595.28 },
+  letter: { width: 612, height: 792 },
+  legal: { width: 612, height: 1008 },
+};
+
+// Named colours beyond these fall back to black
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  black: [0, 0, 0],
+  white: [255, 255, 255],
+  red: [255, 0, 0],
+  green: [0, 128, 0],
+  blue: [0, 0, 255],
+  yellow: [255, 255, 0],
+  orange: [255, 165, 0],
+  purple: [128, 0, 128],
+  pink: [255, 192, 203],
+  brown: [165, 42, 42],
+  gray: [128, 128, 128],
+  grey: [128, 128, 128],
+  cyan: [0, 255, 255],
+  magenta: [255, 0, 255],
+  lime: [0, 255, 0],
+  navy: [0, 0, 128],
+  teal: [0, 128, 128],
+  maroon: [128, 0, 0],
+  olive: [128, 128, 0],
+  silver: [192, 192, 192],
+};
+
+// Skia blend modes share the PDF names apart from the casing
+const PDF_BLEND_MODES: Partial<Record<StrokeBlendMode, string>> = {
+  multiply: "Multiply",
+  screen: "Screen",
+  overlay: "Overlay",
+  darken: "Darken",
+  lighten: "Lighten",
+  colorDodge: "ColorDodge",
+  colorBurn: "ColorBurn",
+  hardLight: "HardLight",
+  softLight: "SoftLight",
+  difference: "Difference",
+  exclusion: "Exclusion",
+  hue: "Hue",
+  saturation: "Saturation",
+  color: "Color",
+  luminosity: "Luminosity",
+};
+
+// Parses hex, rgb()/rgba() and basic named colours into 0-1 components
+export function parseCssColor(
+  color: string
+): { r: number; g: number; b: number; a: number } | null {
+  const value = color.trim().toLowerCase();
+  if (value === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+
+  const named = NAMED_COLORS[value];
+  if (named) {
+    return { r: named[0] / 255, g: named[1] / 255, b: named[2] / 255, a: 1 };
+  }
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hex) {
+    const digits =
+      hex[1].length <= 4 ? hex[1].replace(/./g, (c): string => c + c) : hex[1];
+    const channel = (i: number): number =>
+      parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return {
+      r: channel(0),
+      g: channel(1),
+      b: channel(2),
+      a: digits.length === 8 ? channel(3) : 1,
+    };
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(value);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const channel = (part: string): number =>
+      part.endsWith("%") ? parseFloat(part) / 100 : parseFloat(part) / 255;
+    const alpha =
+      parts[3] === undefined
+        ? 1
+        : parts[3].endsWith("%")
+          ? parseFloat(parts[3]) / 100
+          : parseFloat(parts[3]);
+    const result = {
+      r: channel(parts[0]),
+      g: channel(parts[1]),
+      b: channel(parts[2]),
+      a: alpha,
+    };
+    return Object.values(result).every(Number.isFinite) ? result : null;
+  }
+
+  return null;
+}
+
+// Compact number formatting; PDF doesn't accept exponent notation
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return (Object.is(rounded, -0) ? 0 : rounded)
+    .toFixed(3)
+    .replace(/\.?0+$/, "");
+}
+
+function getColorOperands(color: string): {
+  rgb: string;
+  alpha: number;
+} {
+  const parsed = parseCssColor(color) ?? { r: 0, g: 0, b: 0, a: 1 };
+  const clamp = (value: number): number => Math.max(0, Math.min(1, value));
+  return {
+    rgb: `${num(clamp(parsed.r))} ${num(clamp(parsed.g))} ${num(clamp(parsed.b))}`,
+    alpha: clamp(parsed.a),
+  };
+}
+
+function getPdfPathOperators(svgPath: string): string[] {
+  const ops: string[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+
+  for (const command of arcsToCubics(parseSvgPathCommands(svgPath))) {
+    switch (command.type) {
+      case "M":
+        ops.push(`${num(command.x)} ${num(command.y)} m`);
+        startX = command.x;
+        startY = command.y;
+        break;
+      case "L":
+        ops.push(`${num(command.x)} ${num(command.y)} l`);
+        break;
+      case "C":
+        ops.push(
+          `${num(command.x1)} ${num(command.y1)} ${num(command.x2)} ${num(command.y2)} ${num(command.x)} ${num(command.y)} c`
+        );
+        break;
+      case "Q": {
+        // PDF only has cubic curves; raise the degree
+        const x1 = x + ((command.x1 - x) * 2) / 3;
+        const y1 = y + ((command.y1 - y) * 2) / 3;
+        const x2 = command.x + ((command.x1 - command.x) * 2) / 3;
+        const y2 = command.y + ((command.y1 - command.y) * 2) / 3;
+        ops.push(
+          `${num(x1)} ${num(y1)} ${num(x2)} ${num(y2)} ${num(command.x)} ${num(command.y)} c`
+        );
+        break;
+      }
+      case "A":
+        // arcsToCubics leaves none
+        break;
+      case "Z":
+        ops.push("h");
+        x = startX;
+        y = startY;
+        continue;
+    }
+    if (command.type !== "A") {
+      x = command.x;
+      y = command.y;
+    }
+  }
+  return ops;
+}
+
+// Text goes out in WinAnsi with octal escapes so the content stream stays
+// ASCII. Characters the standard fonts can't show become "?".
+function encodePdfString(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === "\\" || char === "(" || char === ")") {
+      result += `\\${char}`;
+    } else if (code >= 32 && code < 127) {
+      result += char;
+    } else if (code >= 160 && code <= 255) {
+      result += `\\${code.toString(8)}`;
+    } else {
+      result += "?";
+    }
+  }
+  return result;
+}
+
+// World-space bounds of everything drawn, including stroke widths and an
+// estimate of the text boxes
+function getContentBounds(
+  paths: PathData[],
+  texts: TextElement[]
+): CanvasRect | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const include = (x: number, y: number, padding: number = 0): void => {
+    minX = Math.min(minX, x - padding);
+    minY = Math.min(minY, y - padding);
+    maxX = Math.max(maxX, x + padding);
+    maxY = Math.max(maxY, y + padding);
+  };
+
+  for (const path of paths) {
+    for (const [x, y] of path.points) include(x, y, path.width / 2);
+  }
+  for (const text of texts) {
+    const box = getTextBox(text);
+    const cos = Math.cos(text.rotation ?? 0);
+    const sin = Math.sin(text.rotation ?? 0);
+    for (const [bx, by] of [
+      [box.left, box.top],
+      [box.left + box.width, box.top],
+      [box.left, box.top + box.height],
+      [box.left + box.width, box.top + box.height],
+    ]) {
+      include(text.x + bx * cos - by * sin, text.y + bx * sin + by * cos);
+    }
+  }
+
+  if (minX > maxX || minY > maxY) return null;
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+function bytesFromAscii(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+const BASE64_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i];
+    const b = bytes[i + 1];
+    const c = bytes[i + 2];
+    result += BASE64_ALPHABET[a >> 2];
+    result += BASE64_ALPHABET[((a & 3) << 4) | ((b ?? 0) >> 4)];
+    result +=
+      b === undefined
+        ? "="
+        : BASE64_ALPHABET[((b & 15) << 2) | ((c ?? 0) >> 6)];
+    result += c === undefined ? "=" : BASE64_ALPHABET[c & 63];
+  }
+  return result;
+}
+
+// Writes a single page vector PDF. Outlines are filled and centrelines
+// stroked exactly as on the canvas; text uses the built-in Helvetica. The
+// frame (world coordinates) is scaled to fit inside the page margins.
+export function createPdfFromPaths(
+  paths: PathData[],
+  options: {
+    texts?: TextElement[];
+    // Hidden layers are skipped and layer opacity applied per element
+    layers?: Layer[];
+    // Area of the drawing to print; defaults to the content bounds
+    frame?: CanvasRect;
+    backgroundColor?: string;
+    pageSize?: PdfPageSize;
+    orientation?: "portrait" | "landscape" | "auto";
+    margin?: number;
+  } = {}
+): Uint8Array {
+  const {
+    texts = [],
+    layers,
+    backgroundColor,
+    pageSize = "a4",
+    orientation = "auto",
+    margin = 36,
+  } = options;
+
+  const layerContent = layers
+    ? getContentByLayer({ paths, texts, layers }).filter(
+        ({ layer }): boolean => layer.visible
+      )
+    : [{ layer: null, paths, texts }];
+  const visiblePaths = layerContent.flatMap(
+    (content): PathData[] => content.paths
+  );
+  const visibleTexts = layerContent.flatMap(
+    (content): TextElement[] => content.texts
+  );
+
+  const frame = options.frame ??
+    getContentBounds(visiblePaths, visibleTexts) ?? {
+      x: 0,
+      y: 0,
+      width: 1,
+      height: 1,
+    };
+
+  let { width: pageWidth, height: pageHeight } =
+    typeof pageSize === "string" ? PDF_PAGE_SIZES[pageSize] : pageSize;
+  const landscape =
+    orientation === "landscape" ||
+    (orientation === "auto" && frame.width > frame.height);
+  if (landscape !== pageWidth > pageHeight) {
+    [pageWidth, pageHeight] = [pageHeight, pageWidth];
+  }
+
+  const availableWidth = Math.max(pageWidth - margin * 2, 1);
+  const availableHeight = Math.max(pageHeight - margin * 2, 1);
+  const scale = Math.min(
+    availableWidth / Math.max(frame.width, 1e-6),
+    availableHeight / Math.max(frame.height, 1e-6)
+  );
+  const offsetX = (pageWidth - frame.width * scale) / 2;
+  const offsetY = (pageHeight - frame.height * scale) / 2;
+
+  // Graphics states for opacity and blending, shared between elements
+  const graphicsStates = new Map<string, string>();
+  const getGraphicsState = (
+    fillAlpha: number,
+    strokeAlpha: number,
+    blendMode?: StrokeBlendMode
+  ): string | null => {
+    const pdfBlendMode = blendMode && PDF_BLEND_MODES[blendMode];
+    if (fillAlpha >= 1 && strokeAlpha >= 1 && !pdfBlendMode) return null;
+    const dictionary = `<< /ca ${num(fillAlpha)} /CA ${num(strokeAlpha)}${pdfBlendMode ? ` /BM /${pdfBlendMode}` : ""} >>`;
+    let name = graphicsStates.get(dictionary);
+    if (!name) {
+      name = `GS${graphicsStates.size}`;
+      graphicsStates.set(dictionary, name);
+    }
+    return name;
+  };
+
+  const content: string[] = [];
+  if (backgroundColor) {
+    const { rgb, alpha } = getColorOperands(backgroundColor);
+    if (alpha > 0) {
+      const state = getGraphicsState(alpha, 1);
+      content.push(
+        "q",
+        ...(state ? [`/${state} gs`] : []),
+        `${rgb} rg`,
+        `0 0 ${num(pageWidth)} ${num(pageHeight)} re f`,
+        "Q"
+      );
+    }
+  }
+
+  // Clip to the frame and map world coordinates, y-down, onto the page
+  content.push(
+    "q",
+    `${num(offsetX)} ${num(offsetY)} ${num(frame.width * scale)} ${num(frame.height * scale)} re W n`,
+    `${num(scale)} 0 0 ${num(-scale)} ${num(offsetX - frame.x * scale)} ${num(pageHeight - offsetY + frame.y * scale)} cm`
+  );
+
+  for (const { layer, paths: layerPaths, texts: layerTexts } of layerContent) {
+    // Per element, so overlapping elements in a faded layer show through
+    // each other slightly more than on the canvas
+    const layerOpacity = layer?.opacity ?? 1;
+
+    for (const path of sortPathsForRendering(layerPaths)) {
+      const ops = getPdfPathOperators(path.svgPath);
+      if (ops.length === 0) continue;
+      const { rgb, alpha } = getColorOperands(path.color);
+      const opacity = alpha * (path.opacity ?? 1) * layerOpacity;
+      if (opacity <= 0) continue;
+
+      const stroke = path.renderStyle === "stroke";
+      const state = getGraphicsState(opacity, opacity, path.blendMode);
+      content.push("q", ...(state ? [`/${state} gs`] : []));
+      if (stroke) {
+        content.push(`${rgb} RG`, `${num(path.width)} w 1 J 1 j`, ...ops, "S");
+      } else {
+        content.push(`${rgb} rg`, ...ops, "f");
+      }
+      content.push("Q");
+    }
+
+    for (const text of layerTexts) {
+      const { rgb, alpha } = getColorOperands(text.color);
+      const opacity = alpha * (text.opacity ?? 1) * layerOpacity;
+      if (opacity <= 0) continue;
+
+      const cos = Math.cos(text.rotation ?? 0);
+      const sin = Math.sin(text.rotation ?? 0);
+      const lineHeight = text.fontSize * TEXT_LINE_HEIGHT;
+      const state = getGraphicsState(opacity, opacity);
+      content.push("q", ...(state ? [`/${state} gs`] : []), `${rgb} rg`, "BT");
+      getTextLines(text).forEach((line, i): void => {
+        // Glyph space is y-up, so the text matrix flips back the page flip
+        const x = text.x - sin * lineHeight * i;
+        const y = text.y + cos * lineHeight * i;
+        content.push(
+          `/F1 1 Tf ${num(text.fontSize * cos)} ${num(text.fontSize * sin)} ${num(text.fontSize * sin)} ${num(-text.fontSize * cos)} ${num(x)} ${num(y)} Tm`,
+          `(${encodePdfString(line)}) Tj`
+        );
+      });
+      content.push("ET", "Q");
+    }
+  }
+  content.push("Q");
+
+  const stream = content.join("\n");
+  const extGState = [...graphicsStates]
+    .map(([dictionary, name]): string => `/${name} ${dictionary}`)
+    .join(" ");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] /Resources << /Font << /F1 5 0 R >> /ExtGState << ${extGState} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+  ];
+
+  // Everything written is ASCII, so string offsets are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, i): void => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset): string => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return bytesFromAscii(pdf);
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { Point } from "../types";
+import { recognizeShape } from "./recognition";
+
+// Deterministic hand wobble so the strokes aren't perfectly clean
+function wobble(points: Point[], amount: number): Point[] {
+  return points.map(
+    ([x, y], i): Point => [
+      x + Math.sin(i * 1.7) * amount,
+      y + Math.cos(i * 2.3) * amount,
+    ]
+  );
+}
+
+// Points every few units along the polyline through the vertices
+function trace(vertices: Point[], step: number = 5): Point[] {
+  const points: Point[] = [];
+  for (let i = 1; i < vertices.length; i++) {
+    const [x0, y0] = vertices[i - 1];
+    const [x1, y1] = vertices[i];
+    const steps = Math.max(1, Math.round(Math.hypot(x1 - x0, y1 - y0) / step));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      points.push([x0 + (x1 - x0) * t, y0 + (y1 - y0) * t]);
+    }
+  }
+  points.push(vertices[vertices.length - 1]);
+  return points;
+}
+
+function arc(
+  center: Point,
+  radius: number,
+  sweep: number,
+  count: number = 60
+): Point[] {
+  return Array.from({ length: count + 1 }, (_, i): Point => {
+    const angle = (sweep * i) / count;
+    return [
+      center[0] + Math.cos(angle) * radius,
+      center[1] + Math.sin(angle) * radius,
+    ];
+  });
+}
+
+describe("recognizeShape", (): void => {
+  it("recognizes a line", (): void => {
+    const result = recognizeShape(
+      wobble(
+        trace([
+          [0, 0],
+          [200, 50],
+        ]),
+        1
+      )
+    );
+
+    expect(result?.type).toBe("line");
+    expect(result?.shape.type).toBe("line");
+    expect(result?.shape.start[0]).toBeCloseTo(0, -1);
+    expect(result?.shape.end[0]).toBeCloseTo(200, -1);
+  });
+
+  it("recognizes an ellipse", (): void => {
+    const result = recognizeShape(wobble(arc([100, 100], 80, Math.PI * 2), 1));
+
+    expect(result?.type).toBe("ellipse");
+    expect(result?.shape.start[0]).toBeCloseTo(20, -1);
+    expect(result?.shape.end[1]).toBeCloseTo(180, -1);
+  });
+
+  it("recognizes a rectangle", (): void => {
+    const result = recognizeShape(
+      wobble(
+        trace([
+          [0, 0],
+          [200, 0],
+          [200, 100],
+          [0, 100],
+          [0, 0],
+        ]),
+        1
+      )
+    );
+
+    expect(result?.type).toBe("rectangle");
+    expect(result?.shape.type).toBe("rectangle");
+    expect(result?.shape.rotation ?? 0).toBeCloseTo(0, 1);
+  });
+
+  it("recognizes a triangle", (): void => {
+    const result = recognizeShape(
+      wobble(
+        trace([
+          [100, 0],
+          [200, 170],
+          [0, 170],
+          [100, 0],
+        ]),
+        1
+      )
+    );
+
+    expect(result?.type).toBe("triangle");
+    expect(result?.shape.type).toBe("polygon");
+    expect(result?.shape.vertices).toHaveLength(3);
+  });
+
+  it("rejects scribbles", (): void => {
+    const zigzag = trace(
+      Array.from(
+        { length: 12 },
+        (_, i): Point => [i * 15, i % 2 === 0 ? 0 : 60 + ((i * 23) % 40)]
+      )
+    );
+    const loops = Array.from({ length: 120 }, (_, i): Point => {
+      const angle = i * 0.35;
+      return [i * 2 + Math.cos(angle) * 30, Math.sin(angle) * 30];
+    });
+
+    expect(recognizeShape(zigzag)).toBeNull();
+    expect(recognizeShape(loops)).toBeNull();
+  });
+
+  it("rejects strokes that are too short", (): void => {
+    const dot: Point[] = [
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [3, 3],
+      [4, 4],
+    ];
+
+    expect(recognizeShape(dot.slice(0, 4), { minLength: 0 })).toBeNull();
+    expect(recognizeShape(dot)).toBeNull();
+    expect(recognizeShape(dot, { minLength: 0 })?.type).toBe("line");
+  });
+
+  it("only returns matches at or above the confidence threshold", (): void => {
+    const points = wobble(arc([100, 100], 80, Math.PI * 2), 6);
+    const result = recognizeShape(points, { minConfidence: 0 });
+    const confidence = result?.confidence ?? 0;
+
+    expect(result?.type).toBe("ellipse");
+    expect(confidence).toBeGreaterThan(0);
+    expect(confidence).toBeLessThan(1);
+    expect(recognizeShape(points, { minConfidence: confidence })).toEqual(
+      result
+    );
+    expect(
+      recognizeShape(points, { minConfidence: confidence + 0.01 })
+    ).toBeNull();
+  });
+
+  it("only recognizes closed shapes from closed strokes", (): void => {
+    const openArc = arc([100, 100], 80, Math.PI * 1.5);
+    const openBox = trace([
+      [0, 0],
+      [200, 0],
+      [200, 100],
+      [0, 100],
+    ]);
+
+    expect(recognizeShape(openArc)).toBeNull();
+    expect(recognizeShape(openBox)).toBeNull();
+    expect(
+      recognizeShape([
+        ...openBox,
+        ...trace([
+          [0, 100],
+          [0, 0],
+        ]).slice(1),
+      ])?.type
+    ).toBe("rectangle");
+  });
+});
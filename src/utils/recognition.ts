@@ -0,0 +1,258 @@
+import type { Point, RecognizedShape, ShapeData } from "../types";
+import { distanceToSegment } from "./hitTest";
+import { getPathBounds } from "./path";
+
+interface RecognitionOptions {
+  minConfidence?: number;
+  // Strokes shorter than this (in world units) are never recognized
+  minLength?: number;
+}
+
+function getLength(points: Point[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(
+      points[i][0] - points[i - 1][0],
+      points[i][1] - points[i - 1][1]
+    );
+  }
+  return length;
+}
+
+function getCentroid(points: Point[]): Point {
+  let x = 0;
+  let y = 0;
+  for (const point of points) {
+    x += point[0];
+    y += point[1];
+  }
+  return [x / points.length, y / points.length];
+}
+
+function rotatePoint(point: Point, center: Point, rotation: number): Point {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const dx = point[0] - center[0];
+  const dy = point[1] - center[1];
+  return [center[0] + dx * cos - dy * sin, center[1] + dx * sin + dy * cos];
+}
+
+function douglasPeucker(points: Point[], epsilon: number): Point[] {
+  if (points.length < 3) return points;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  let maxDistance = 0;
+  let index = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= epsilon) return [first, last];
+
+  const left = douglasPeucker(points.slice(0, index + 1), epsilon);
+  const right = douglasPeucker(points.slice(index), epsilon);
+  return [...left.slice(0, -1), ...right];
+}
+
+// Corners of a closed stroke. Vertices where the outline barely turns (such
+// as where the stroke started mid-edge) are dropped.
+function findCorners(points: Point[], epsilon: number): Point[] {
+  const simplified = douglasPeucker([...points, points[0]], epsilon).slice(
+    0,
+    -1
+  );
+
+  let corners = simplified;
+  let changed = true;
+  while (changed && corners.length > 3) {
+    changed = false;
+    for (let i = 0; i < corners.length; i++) {
+      const prev = corners[(i - 1 + corners.length) % corners.length];
+      const current = corners[i];
+      const next = corners[(i + 1) % corners.length];
+      const a = Math.atan2(current[1] - prev[1], current[0] - prev[0]);
+      const b = Math.atan2(next[1] - current[1], next[0] - current[0]);
+      let turn = Math.abs(b - a);
+      if (turn > Math.PI) turn = Math.PI * 2 - turn;
+
+      if (turn < Math.PI / 6) {
+        corners = corners.filter((_, j): boolean => j !== i);
+        changed = true;
+        break;
+      }
+    }
+  }
+  return corners;
+}
+
+// Mean distance of the stroke to a closed polygon, relative to its perimeter
+function polygonError(points: Point[], vertices: Point[]): number {
+  let total = 0;
+  for (const point of points) {
+    let best = Infinity;
+    for (let i = 0; i < vertices.length; i++) {
+      best = Math.min(
+        best,
+        distanceToSegment(
+          point,
+          vertices[i],
+          vertices[(i + 1) % vertices.length]
+        )
+      );
+    }
+    total += best;
+  }
+  return (
+    total / points.length / Math.max(getLength([...vertices, vertices[0]]), 1)
+  );
+}
+
+function recognizeLine(points: Point[], length: number): RecognizedShape {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const span = Math.hypot(end[0] - start[0], end[1] - start[1]);
+  const deviation =
+    points.reduce(
+      (max, point): number =>
+        Math.max(max, distanceToSegment(point, start, end)),
+      0
+    ) / Math.max(span, 1);
+
+  return {
+    type: "line",
+    confidence: Math.max(0, (span / length) * (1 - deviation * 4)),
+    shape: { type: "line", start: [start[0], start[1]], end: [end[0], end[1]] },
+  };
+}
+
+function recognizeEllipse(points: Point[]): RecognizedShape {
+  const bounds = getPathBounds(points);
+  const rx = Math.max(bounds.width / 2, 1);
+  const ry = Math.max(bounds.height / 2, 1);
+  const cx = bounds.minX + rx;
+  const cy = bounds.minY + ry;
+
+  // Normalised radial distance is 1 for points exactly on the ellipse
+  let error = 0;
+  for (const point of points) {
+    const r = Math.hypot((point[0] - cx) / rx, (point[1] - cy) / ry);
+    error += Math.abs(r - 1);
+  }
+
+  return {
+    type: "ellipse",
+    confidence: Math.max(0, 1 - (error / points.length) * 4),
+    shape: {
+      type: "ellipse",
+      start: [bounds.minX, bounds.minY],
+      end: [bounds.maxX, bounds.maxY],
+    },
+  };
+}
+
+function recognizeRectangle(
+  points: Point[],
+  corners: Point[]
+): RecognizedShape {
+  // Align to the first edge, folded into [-45°, 45°] so near-axis-aligned
+  // rectangles come out unrotated
+  const [a, b] = corners;
+  let rotation = Math.atan2(b[1] - a[1], b[0] - a[0]);
+  rotation -= Math.round(rotation / (Math.PI / 2)) * (Math.PI / 2);
+
+  const centroid = getCentroid(points);
+  const aligned = points.map(
+    (point): Point => rotatePoint(point, centroid, -rotation)
+  );
+  const bounds = getPathBounds(aligned);
+  const center = rotatePoint(
+    [bounds.minX + bounds.width / 2, bounds.minY + bounds.height / 2],
+    centroid,
+    rotation
+  );
+  const shape: ShapeData = {
+    type: "rectangle",
+    start: [center[0] - bounds.width / 2, center[1] - bounds.height / 2],
+    end: [center[0] + bounds.width / 2, center[1] + bounds.height / 2],
+    rotation,
+  };
+
+  const box: Point[] = [
+    [bounds.minX, bounds.minY],
+    [bounds.maxX, bounds.minY],
+    [bounds.maxX, bounds.maxY],
+    [bounds.minX, bounds.maxY],
+  ];
+  return {
+    type: "rectangle",
+    confidence: Math.max(0, 1 - polygonError(aligned, box) * 25),
+    shape,
+  };
+}
+
+function recognizeTriangle(points: Point[], corners: Point[]): RecognizedShape {
+  const bounds = getPathBounds(corners);
+  return {
+    type: "triangle",
+    confidence: Math.max(0, 1 - polygonError(points, corners) * 25),
+    shape: {
+      type: "polygon",
+      start: [bounds.minX, bounds.minY],
+      end: [bounds.maxX, bounds.maxY],
+      sides: 3,
+      vertices: corners.map((corner): Point => [corner[0], corner[1]]),
+    },
+  };
+}
+
+// Classifies a raw freehand stroke as a line, ellipse, rectangle or triangle.
+// Returns the best match above the confidence threshold, or null.
+export function recognizeShape(
+  points: Point[],
+  options: RecognitionOptions = {}
+): RecognizedShape | null {
+  const { minConfidence = 0.75, minLength = 20 } = options;
+  if (points.length < 5) return null;
+
+  const length = getLength(points);
+  if (length < minLength) return null;
+
+  const candidates: RecognizedShape[] = [recognizeLine(points, length)];
+
+  // Closed shapes need their ends to meet within a fraction of the outline
+  const start = points[0];
+  const end = points[points.length - 1];
+  const gap = Math.hypot(end[0] - start[0], end[1] - start[1]);
+  if (gap < length * 0.2) {
+    const closure = 1 - gap / (length * 0.2) / 4;
+    const corners = findCorners(points, length * 0.04);
+
+    const ellipse = recognizeEllipse(points);
+    candidates.push({ ...ellipse, confidence: ellipse.confidence * closure });
+
+    if (corners.length === 4) {
+      const rectangle = recognizeRectangle(points, corners);
+      candidates.push({
+        ...rectangle,
+        confidence: rectangle.confidence * closure,
+      });
+    } else if (corners.length === 3) {
+      const triangle = recognizeTriangle(points, corners);
+      candidates.push({
+        ...triangle,
+        confidence: triangle.confidence * closure,
+      });
+    }
+  }
+
+  const best = candidates.reduce(
+    (a, b): RecognizedShape => (b.confidence > a.confidence ? b : a)
+  );
+  return best.confidence >= minConfidence ? best : null;
+}
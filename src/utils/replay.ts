@@ -0,0 +1,198 @@
+import type { PathData, ReplayController, ReplayProgress } from "../types";
+import { regenerateSvgPath } from "./shapes";
+
+export const DEFAULT_REPLAY_MAX_PAUSE = 1000;
+export const DEFAULT_REPLAY_STROKE_DURATION = 400;
+
+// Pause before strokes that have no recorded time to measure a gap from
+const DEFAULT_REPLAY_GAP = 200;
+
+export interface ReplayStroke {
+  path: PathData;
+  // Playback times in ms from the start of the replay
+  start: number;
+  end: number;
+  // Playback time of each point
+  times: number[];
+}
+
+export interface ReplayTimeline {
+  strokes: ReplayStroke[];
+  duration: number;
+}
+
+// Evenly spaced times from start to end
+export function spreadTimestamps(
+  start: number,
+  end: number,
+  count: number
+): number[] {
+  if (count <= 1) return count === 1 ? [start] : [];
+  return Array.from(
+    { length: count },
+    (_, i): number => start + ((end - start) * i) / (count - 1)
+  );
+}
+
+// Recorded time of each point, or null for paths drawn without timing
+function getPointTimes(path: PathData): number[] | null {
+  const { timestamps, points } = path;
+  if (!timestamps || timestamps.length === 0) return null;
+  if (timestamps.length === points.length) return timestamps;
+  return spreadTimestamps(
+    timestamps[0],
+    timestamps[timestamps.length - 1],
+    points.length
+  );
+}
+
+// Lays the paths out one after another in drawing order, keeping the
+// recorded pace within strokes and the pauses between them up to maxPause
+export function createReplayTimeline(
+  paths: PathData[],
+  options: { maxPause?: number; strokeDuration?: number } = {}
+): ReplayTimeline {
+  const {
+    maxPause = DEFAULT_REPLAY_MAX_PAUSE,
+    strokeDuration = DEFAULT_REPLAY_STROKE_DURATION,
+  } = options;
+  const strokes: ReplayStroke[] = [];
+  let time = 0;
+  let lastRecordedEnd: number | null = null;
+
+  for (const path of paths) {
+    const recorded = getPointTimes(path);
+    if (strokes.length > 0) {
+      time +=
+        recorded && lastRecordedEnd !== null
+          ? Math.max(0, Math.min(recorded[0] - lastRecordedEnd, maxPause))
+          : Math.min(DEFAULT_REPLAY_GAP, maxPause);
+    }
+
+    const start = time;
+    const times = recorded
+      ? recorded.map((t): number => start + Math.max(0, t - recorded[0]))
+      : spreadTimestamps(start, start + strokeDuration, path.points.length);
+    const end = times.length > 0 ? times[times.length - 1] : start;
+
+    strokes.push({ path, start, end, times });
+    time = end;
+    lastRecordedEnd = recorded ? recorded[recorded.length - 1] : null;
+  }
+
+  return { strokes, duration: time };
+}
+
+// Paths as they look at a playback time: finished strokes in full and the
+// stroke in progress cut at its last drawn point. Imported SVG geometry has
+// no drawing order, so it appears whole once its time is up.
+export function getReplayFrame(
+  timeline: ReplayTimeline,
+  time: number
+): PathData[] {
+  const frame: PathData[] = [];
+
+  for (const { path, start, end, times } of timeline.strokes) {
+    if (time >= end) {
+      frame.push(path);
+      continue;
+    }
+    if (time < start) break;
+    if (path.fromSvg) break;
+
+    let count = 0;
+    while (count < times.length && times[count] <= time) count++;
+    if (count > 0) {
+      const partial: PathData = {
+        ...path,
+        points: path.points.slice(0, count),
+        shape: undefined,
+        completed: false,
+      };
+      frame.push({ ...partial, svgPath: regenerateSvgPath(partial) });
+    }
+    break;
+  }
+
+  return frame;
+}
+
+// Drives playback with requestAnimationFrame. onFrame receives the playback
+// time on every frame and after seeking.
+export function createReplayPlayer(options: {
+  duration: number;
+  speed?: number;
+  loop?: boolean;
+  onFrame: (time: number) => void;
+  onProgress?: (progress: ReplayProgress) => void;
+  onComplete?: () => void;
+}): ReplayController {
+  const { duration, loop = false, onFrame, onProgress, onComplete } = options;
+  let speed = options.speed ?? 1;
+  let time = 0;
+  let frameId: number | null = null;
+  let lastTimestamp: number | null = null;
+
+  const emit = (): void => {
+    onFrame(time);
+    onProgress?.({
+      time,
+      duration,
+      progress: duration > 0 ? time / duration : 1,
+    });
+  };
+
+  const cancel = (): void => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    lastTimestamp = null;
+  };
+
+  const tick = (timestamp: number): void => {
+    if (lastTimestamp !== null) {
+      time += (timestamp - lastTimestamp) * speed;
+    }
+    lastTimestamp = timestamp;
+
+    if (time >= duration) {
+      if (loop && duration > 0) {
+        time %= duration;
+      } else {
+        time = duration;
+        frameId = null;
+        lastTimestamp = null;
+        emit();
+        onComplete?.();
+        return;
+      }
+    }
+    emit();
+    frameId = requestAnimationFrame(tick);
+  };
+
+  return {
+    play: (): void => {
+      if (frameId !== null) return;
+      if (time >= duration) time = 0;
+      frameId = requestAnimationFrame(tick);
+    },
+    pause: cancel,
+    seek: (target: number): void => {
+      time = Math.max(0, Math.min(target, duration));
+      // Measure the next frame from now, not from before the jump
+      lastTimestamp = null;
+      emit();
+    },
+    stop: (): void => {
+      cancel();
+      time = 0;
+      onFrame(time);
+    },
+    setSpeed: (nextSpeed: number): void => {
+      speed = Math.max(0, nextSpeed);
+    },
+    isPlaying: (): boolean => frameId !== null,
+    getTime: (): number => time,
+    getDuration: (): number => duration,
+  };
+}
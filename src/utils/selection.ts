@@ -0,0 +1,189 @@
+import type { PathData, Point, SelectionTransform } from "../types";
+import { getPathBounds } from "./path";
+import { getShapePoints, regenerateSvgPath, transformShape } from "./shapes";
+import type { AffineMatrix } from "./svgPath";
+import { transformSvgPath } from "./svgPath";
+
+export interface SelectionBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_TRANSFORM: SelectionTransform = {
+  translateX: 0,
+  translateY: 0,
+  scale: 1,
+  rotation: 0,
+  originX: 0,
+  originY: 0,
+};
+
+// Ray casting - works for concave and self-intersecting lasso shapes
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (
+      yi > point[1] !== yj > point[1] &&
+      point[0] < ((xj - xi) * (point[1] - yi)) / (yj - yi) + xi
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function rectToPolygon(from: Point, to: Point): Point[] {
+  return [
+    [from[0], from[1]],
+    [to[0], from[1]],
+    [to[0], to[1]],
+    [from[0], to[1]],
+  ];
+}
+
+// A path is selected when every one of its points lies inside the polygon
+export function getPathsInPolygon(
+  paths: PathData[],
+  polygon: Point[]
+): string[] {
+  if (polygon.length < 3) return [];
+
+  return paths
+    .filter(
+      (path): boolean =>
+        path.points.length > 0 &&
+        path.points.every((point): boolean => pointInPolygon(point, polygon))
+    )
+    .map((path): string => path.id);
+}
+
+// Bounds of the centrelines grown by half the widest stroke, so the box
+// encloses the rendered outlines
+export function getSelectionBounds(paths: PathData[]): SelectionBounds | null {
+  if (paths.length === 0) return null;
+
+  const bounds = getPathBounds(paths.flatMap((path): Point[] => path.points));
+  const padding = Math.max(...paths.map((path): number => path.width)) / 2;
+
+  return {
+    minX: bounds.minX - padding,
+    minY: bounds.minY - padding,
+    maxX: bounds.maxX + padding,
+    maxY: bounds.maxY + padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  };
+}
+
+export function transformPoint(
+  point: Point,
+  transform: SelectionTransform
+): Point {
+  const { translateX, translateY, scale, rotation, originX, originY } =
+    transform;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const dx = (point[0] - originX) * scale;
+  const dy = (point[1] - originY) * scale;
+
+  const x = originX + dx * cos - dy * sin + translateX;
+  const y = originY + dx * sin + dy * cos + translateY;
+  return point[2] !== undefined ? [x, y, point[2]] : [x, y];
+}
+
+// The same transform as transformPoint, as an SVG matrix
+function getTransformMatrix(transform: SelectionTransform): AffineMatrix {
+  const { translateX, translateY, scale, rotation, originX, originY } =
+    transform;
+  const a = scale * Math.cos(rotation);
+  const b = scale * Math.sin(rotation);
+  return [
+    a,
+    b,
+    -b,
+    a,
+    originX + translateX - (a * originX - b * originY),
+    originY + translateY - (b * originX + a * originY),
+  ];
+}
+
+// Applies a transform to the centreline and regenerates the outline. Widths
+// scale with the path so strokes keep their proportions.
+export function transformPath(
+  path: PathData,
+  transform: SelectionTransform
+): PathData {
+  const shape = path.shape && transformShape(path.shape, transform);
+  const points = shape
+    ? getShapePoints(shape)
+    : path.points.map((point): Point => transformPoint(point, transform));
+  const width = path.width * transform.scale;
+  if (path.fromSvg) {
+    return {
+      ...path,
+      points,
+      width,
+      svgPath: transformSvgPath(path.svgPath, getTransformMatrix(transform)),
+    };
+  }
+  const transformed: PathData = {
+    ...path,
+    points,
+    width,
+    strokeOptions: { ...path.strokeOptions, size: width },
+    shape,
+  };
+
+  return { ...transformed, svgPath: regenerateSvgPath(transformed) };
+}
+
+export type SelectionHandle = "move" | "scale" | "rotate";
+
+// Distance of the rotation handle above the top edge of the selection box
+const ROTATE_HANDLE_OFFSET = 24;
+
+export function getSelectionHandles(bounds: SelectionBounds): {
+  corners: Point[];
+  rotate: Point;
+} {
+  return {
+    corners: [
+      [bounds.minX, bounds.minY],
+      [bounds.maxX, bounds.minY],
+      [bounds.maxX, bounds.maxY],
+      [bounds.minX, bounds.maxY],
+    ],
+    rotate: [
+      bounds.minX + bounds.width / 2,
+      bounds.minY - ROTATE_HANDLE_OFFSET,
+    ],
+  };
+}
+
+export function getSelectionHandleAt(
+  point: Point,
+  bounds: SelectionBounds,
+  tolerance: number
+): SelectionHandle | null {
+  const { corners, rotate } = getSelectionHandles(bounds);
+  const near = (handle: Point): boolean =>
+    Math.hypot(point[0] - handle[0], point[1] - handle[1]) <= tolerance;
+
+  if (near(rotate)) return "rotate";
+  if (corners.some(near)) return "scale";
+  if (
+    point[0] >= bounds.minX &&
+    point[0] <= bounds.maxX &&
+    point[1] >= bounds.minY &&
+    point[1] <= bounds.maxY
+  ) {
+    return "move";
+  }
+  return null;
+}
@@ -0,0 +1,181 @@
+import type { PathData, Point, SelectionTransform, ShapeData } from "../types";
+import { interpolatePoints, processPoints } from "./path";
+import { getSvgPathFromPoints } from "./svg";
+
+const ELLIPSE_SEGMENTS = 72;
+
+function rotateAround(point: Point, center: Point, rotation: number): Point {
+  if (rotation === 0) return point;
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const dx = point[0] - center[0];
+  const dy = point[1] - center[1];
+  return [center[0] + dx * cos - dy * sin, center[1] + dx * sin + dy * cos];
+}
+
+function getShapeFrame(shape: ShapeData): {
+  center: Point;
+  rx: number;
+  ry: number;
+} {
+  const { start, end } = shape;
+  return {
+    center: [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2],
+    rx: Math.abs(end[0] - start[0]) / 2,
+    ry: Math.abs(end[1] - start[1]) / 2,
+  };
+}
+
+// Corner points of the shape in drawing order. Closed shapes repeat their
+// first vertex at the end.
+export function getShapeVertices(shape: ShapeData): Point[] {
+  const { start, end, rotation = 0 } = shape;
+  const { center, rx, ry } = getShapeFrame(shape);
+  let vertices: Point[];
+
+  switch (shape.type) {
+    case "line":
+      vertices = [start, end];
+      break;
+    case "arrow": {
+      // Head size follows the shaft length so short arrows stay readable
+      const angle = Math.atan2(end[1] - start[1], end[0] - start[0]);
+      const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+      const head = Math.min(length / 3, 24);
+      const spread = Math.PI / 6;
+      const left: Point = [
+        end[0] - head * Math.cos(angle - spread),
+        end[1] - head * Math.sin(angle - spread),
+      ];
+      const right: Point = [
+        end[0] - head * Math.cos(angle + spread),
+        end[1] - head * Math.sin(angle + spread),
+      ];
+      vertices = [start, end, left, end, right];
+      break;
+    }
+    case "rectangle":
+      vertices = [
+        [center[0] - rx, center[1] - ry],
+        [center[0] + rx, center[1] - ry],
+        [center[0] + rx, center[1] + ry],
+        [center[0] - rx, center[1] + ry],
+        [center[0] - rx, center[1] - ry],
+      ];
+      break;
+    case "polygon":
+      if (shape.vertices && shape.vertices.length >= 3) {
+        vertices = [...shape.vertices, shape.vertices[0]];
+        break;
+      }
+    // falls through
+    case "ellipse": {
+      // Polygons start at the top so they sit upright inside the drag box
+      const count =
+        shape.type === "ellipse"
+          ? ELLIPSE_SEGMENTS
+          : Math.max(3, shape.sides ?? 5);
+      vertices = [];
+      for (let i = 0; i <= count; i++) {
+        const theta = -Math.PI / 2 + (i / count) * Math.PI * 2;
+        vertices.push([
+          center[0] + rx * Math.cos(theta),
+          center[1] + ry * Math.sin(theta),
+        ]);
+      }
+      break;
+    }
+  }
+
+  return vertices.map(
+    (vertex): Point => rotateAround(vertex, center, rotation)
+  );
+}
+
+// Evenly spaced centreline points used for hit-testing and the
+// perfect-freehand outline
+export function getShapePoints(shape: ShapeData, spacing: number = 4): Point[] {
+  const vertices = getShapeVertices(shape);
+  const points: Point[] = [vertices[0]];
+
+  for (let i = 1; i < vertices.length; i++) {
+    const prev = vertices[i - 1];
+    const next = vertices[i];
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.hypot(next[0] - prev[0], next[1] - prev[1]) / spacing)
+    );
+    for (let step = 1; step <= steps; step++) {
+      points.push(interpolatePoints(prev, next, step / steps));
+    }
+  }
+  return points;
+}
+
+// Crisp centreline geometry, drawn with a stroke rather than a filled outline
+export function getShapeSvgPath(shape: ShapeData): string {
+  if (shape.type === "ellipse") {
+    const { center, rx, ry } = getShapeFrame(shape);
+    const degrees = ((shape.rotation ?? 0) * 180) / Math.PI;
+    const [x0, y0] = rotateAround(
+      [center[0] - rx, center[1]],
+      center,
+      shape.rotation ?? 0
+    );
+    const [x1, y1] = rotateAround(
+      [center[0] + rx, center[1]],
+      center,
+      shape.rotation ?? 0
+    );
+    return `M ${x0} ${y0} A ${rx} ${ry} ${degrees} 1 0 ${x1} ${y1} A ${rx} ${ry} ${degrees} 1 0 ${x0} ${y0} Z`;
+  }
+
+  const closed = shape.type === "rectangle" || shape.type === "polygon";
+  const vertices = getShapeVertices(shape);
+  return getSvgPathFromPoints(
+    closed ? vertices.slice(0, -1) : vertices,
+    closed
+  );
+}
+
+// Moves the shape's frame with the transform; rotation accumulates on the
+// shape so rectangles and ellipses stay editable after rotating
+export function transformShape(
+  shape: ShapeData,
+  transform: SelectionTransform
+): ShapeData {
+  const { center } = getShapeFrame(shape);
+  const cos = Math.cos(transform.rotation);
+  const sin = Math.sin(transform.rotation);
+  const dx = (center[0] - transform.originX) * transform.scale;
+  const dy = (center[1] - transform.originY) * transform.scale;
+  const nextCenter: Point = [
+    transform.originX + dx * cos - dy * sin + transform.translateX,
+    transform.originY + dx * sin + dy * cos + transform.translateY,
+  ];
+  const halfX = ((shape.end[0] - shape.start[0]) / 2) * transform.scale;
+  const halfY = ((shape.end[1] - shape.start[1]) / 2) * transform.scale;
+  const moveVertex = (vertex: Point): Point => [
+    nextCenter[0] + (vertex[0] - center[0]) * transform.scale,
+    nextCenter[1] + (vertex[1] - center[1]) * transform.scale,
+  ];
+
+  return {
+    ...shape,
+    start: [nextCenter[0] - halfX, nextCenter[1] - halfY],
+    end: [nextCenter[0] + halfX, nextCenter[1] + halfY],
+    rotation: (shape.rotation ?? 0) + transform.rotation,
+    ...(shape.vertices ? { vertices: shape.vertices.map(moveVertex) } : {}),
+  };
+}
+
+// Rebuilds svgPath from whatever geometry the path carries
+export function regenerateSvgPath(path: PathData): string {
+  if (path.fromSvg) return path.svgPath;
+  if (path.renderStyle === "stroke") {
+    return path.shape
+      ? getShapeSvgPath(path.shape)
+      : getSvgPathFromPoints(path.points);
+  }
+  return processPoints(path.points, path.strokeOptions ?? { size: path.width });
+}
@@ -0,0 +1,192 @@
+import type { CanvasRect, PathData } from "../types";
+import { diffById } from "./history";
+import { pathIntersectsSegment } from "./hitTest";
+import { getPathBounds } from "./path";
+
+export const DEFAULT_SPATIAL_CELL_SIZE = 256;
+
+// Paths covering more grid cells than this, e.g. a huge imported shape, are
+// kept aside and checked by every query instead of filling the grid
+const MAX_CELLS_PER_PATH = 64;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface IndexEntry {
+  path: PathData;
+  box: Box;
+  // Null for paths kept aside
+  cells: string[] | null;
+}
+
+// Area a path covers, its points grown by half the stroke width
+export function getPathExtent(path: PathData): CanvasRect {
+  const bounds = getPathBounds(path.points);
+  const padding = path.width / 2;
+  return {
+    x: bounds.minX - padding,
+    y: bounds.minY - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  };
+}
+
+function toBox(rect: CanvasRect): Box {
+  return {
+    minX: rect.x,
+    minY: rect.y,
+    maxX: rect.x + rect.width,
+    maxY: rect.y + rect.height,
+  };
+}
+
+function boxesIntersect(a: Box, b: Box): boolean {
+  return (
+    a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY
+  );
+}
+
+// Uniform grid over path bounds for region queries and hit testing. It is
+// kept in step with a paths array by diffing against the last one seen, so
+// only added, removed and changed paths are re-indexed. Results come back in
+// the order of that array.
+export class SpatialIndex {
+  private cellSize: number;
+  private paths: PathData[] = [];
+  private entries = new Map<string, IndexEntry>();
+  private cells = new Map<string, Set<string>>();
+  private oversized = new Set<string>();
+  // Position of each id in the paths array, for ordering results
+  private order = new Map<string, number>();
+
+  constructor(cellSize: number = DEFAULT_SPATIAL_CELL_SIZE) {
+    this.cellSize = Math.max(1, cellSize);
+  }
+
+  update(paths: PathData[]): void {
+    if (paths === this.paths) return;
+    const { added, removed, updated } = diffById(this.paths, paths);
+    const byId = new Map(
+      paths.map((path): [string, PathData] => [path.id, path])
+    );
+
+    for (const id of [...removed, ...updated]) this.remove(id);
+    for (const id of [...added, ...updated]) {
+      const path = byId.get(id);
+      if (path) this.insert(path);
+    }
+
+    this.order = new Map(
+      paths.map((path, i): [string, number] => [path.id, i])
+    );
+    this.paths = paths;
+  }
+
+  // Paths whose bounds overlap the rect
+  query(rect: CanvasRect): PathData[] {
+    const box = toBox(rect);
+    const ids = new Set(this.oversized);
+    const range = this.getCellRange(box);
+
+    // A rect much larger than the index is cheaper to answer by scanning
+    if (range.count > this.entries.size) {
+      this.entries.forEach((_, id): void => {
+        ids.add(id);
+      });
+    } else {
+      for (let cx = range.minX; cx <= range.maxX; cx++) {
+        for (let cy = range.minY; cy <= range.maxY; cy++) {
+          this.cells.get(`${cx},${cy}`)?.forEach((id): void => {
+            ids.add(id);
+          });
+        }
+      }
+    }
+
+    const found: IndexEntry[] = [];
+    for (const id of ids) {
+      const entry = this.entries.get(id);
+      if (entry && boxesIntersect(entry.box, box)) found.push(entry);
+    }
+    return found
+      .sort(
+        (a, b): number =>
+          (this.order.get(a.path.id) ?? 0) - (this.order.get(b.path.id) ?? 0)
+      )
+      .map(({ path }): PathData => path);
+  }
+
+  // Paths whose outline passes within tolerance of the point
+  hitTest(x: number, y: number, tolerance: number = 0): PathData[] {
+    const reach = Math.max(0, tolerance);
+    return this.query({
+      x: x - reach,
+      y: y - reach,
+      width: reach * 2,
+      height: reach * 2,
+    }).filter((path): boolean =>
+      pathIntersectsSegment(path, [x, y], [x, y], reach)
+    );
+  }
+
+  private getCellRange(box: Box): {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    count: number;
+  } {
+    const minX = Math.floor(box.minX / this.cellSize);
+    const minY = Math.floor(box.minY / this.cellSize);
+    const maxX = Math.floor(box.maxX / this.cellSize);
+    const maxY = Math.floor(box.maxY / this.cellSize);
+    return {
+      minX,
+      minY,
+      maxX,
+      maxY,
+      count: (maxX - minX + 1) * (maxY - minY + 1),
+    };
+  }
+
+  private insert(path: PathData): void {
+    const box = toBox(getPathExtent(path));
+    const range = this.getCellRange(box);
+    if (range.count > MAX_CELLS_PER_PATH) {
+      this.entries.set(path.id, { path, box, cells: null });
+      this.oversized.add(path.id);
+      return;
+    }
+
+    const cells: string[] = [];
+    for (let cx = range.minX; cx <= range.maxX; cx++) {
+      for (let cy = range.minY; cy <= range.maxY; cy++) {
+        const key = `${cx},${cy}`;
+        cells.push(key);
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = new Set();
+          this.cells.set(key, cell);
+        }
+        cell.add(path.id);
+      }
+    }
+    this.entries.set(path.id, { path, box, cells });
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.entries.delete(id);
+    this.oversized.delete(id);
+    for (const key of entry.cells ?? []) {
+      const cell = this.cells.get(key);
+      cell?.delete(id);
+      if (cell && cell.size === 0) this.cells.delete(key);
+    }
+  }
+}
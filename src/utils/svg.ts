@@ -1,4 +1,20 @@
-import type { PathData } from "../types";
+import type {
+  CanvasRect,
+  Layer,
+  PaperOptions,
+  PathData,
+  Point,
+  StrokeBlendMode,
+  TextElement,
+} from "../types";
+import { getContentByLayer } from "./layers";
+import {
+  DEFAULT_MARGIN_COLOR,
+  DEFAULT_PAPER_COLOR,
+  DEFAULT_PAPER_SPACING,
+} from "./paper";
+import { flattenSvgPath } from "./svgPath";
+import { escapeXml, getTextLines, TEXT_LINE_HEIGHT } from "./text";
 
 export function getSvgPathFromStroke(stroke: number[][]): string {
   if (!stroke.length) return "";
@@ -16,64 +32,220 @@ export function getSvgPathFromStroke(stroke: number[][]): string {
   return d.join(" ");
 }
 
+// Plain polyline through the points, used for overlays such as the lasso
+export function getSvgPathFromPoints(
+  points: Point[],
+  closed: boolean = false
+): string {
+  if (!points.length) return "";
+
+  const d = points.map(
+    ([x, y], i): string => `${i === 0 ? "M" : "L"} ${x} ${y}`
+  );
+  if (closed) d.push("Z");
+  return d.join(" ");
+}
+
+export const STROKE_BLEND_MODES: StrokeBlendMode[] = [
+  "srcOver",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "colorDodge",
+  "colorBurn",
+  "hardLight",
+  "softLight",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
+// Skia names are camelCase, CSS mix-blend-mode values are kebab-case
+export function getCssBlendMode(mode: StrokeBlendMode): string {
+  if (mode === "srcOver") return "normal";
+  return mode.replace(/[A-Z]/g, (c): string => `-${c.toLowerCase()}`);
+}
+
+// Highlighter strokes go first so ink always paints over them. The sort is
+// stable, so drawing order is kept within each group.
+export function sortPathsForRendering(paths: PathData[]): PathData[] {
+  if (!paths.some((path): boolean => !!path.highlighter)) return paths;
+  return [
+    ...paths.filter((path): boolean => !!path.highlighter),
+    ...paths.filter((path): boolean => !path.highlighter),
+  ];
+}
+
+// What the outline alone loses, e.g. the centreline erasing and selection
+// work on, kept so importSvg restores the path as it was drawn
+function createSvgPathData(path: PathData): string {
+  if (path.fromSvg) return "";
+  const { points, width, strokeOptions, renderStyle, shape, timestamps } = path;
+  const data = { points, width, strokeOptions, renderStyle, shape, timestamps };
+  return ` data-path="${escapeXml(JSON.stringify(data))}"`;
+}
+
+function createSvgPathElements(paths: PathData[]): string[] {
+  return sortPathsForRendering(paths).map((path): string => {
+    const blend =
+      path.blendMode && path.blendMode !== "srcOver"
+        ? ` style="mix-blend-mode: ${getCssBlendMode(path.blendMode)}"`
+        : "";
+    const extra = `${blend}${path.highlighter ? ` data-highlighter="true"` : ""}${createSvgPathData(path)}`;
+    return path.renderStyle === "stroke"
+      ? `<path d="${path.svgPath}" fill="none" stroke="${path.color}" stroke-width="${path.width}" stroke-linecap="round" stroke-linejoin="round" opacity="${path.opacity || 1}"${extra} />`
+      : `<path d="${path.svgPath}" fill="${path.color}" opacity="${path.opacity || 1}"${extra} />`;
+  });
+}
+
+function createSvgTextElements(texts: TextElement[]): string[] {
+  return texts.map((text): string => {
+    const lines = getTextLines(text);
+    const content =
+      lines.length === 1
+        ? escapeXml(lines[0])
+        : lines
+            .map(
+              (line, i): string =>
+                `<tspan x="${text.x}" dy="${i === 0 ? 0 : text.fontSize * TEXT_LINE_HEIGHT}">${escapeXml(line)}</tspan>`
+            )
+            .join("");
+    const rotate = text.rotation
+      ? ` transform="rotate(${(text.rotation * 180) / Math.PI} ${text.x} ${text.y})"`
+      : "";
+    const family = text.fontFamily
+      ? ` font-family="${escapeXml(text.fontFamily)}"`
+      : "";
+    return `<text x="${text.x}" y="${text.y}" font-size="${text.fontSize}"${family} fill="${text.color}" opacity="${text.opacity ?? 1}"${rotate}>${content}</text>`;
+  });
+}
+
+export interface SvgBackgroundImage {
+  href: string;
+  // Where the image is drawn, and the frame it is clipped to
+  rect: CanvasRect;
+  frame: CanvasRect;
+}
+
+function createSvgImageElement(image: SvgBackgroundImage): string {
+  const { href, rect, frame } = image;
+  return `<defs><clipPath id="background-image-clip"><rect x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}" /></clipPath></defs>
+  <image href="${escapeXml(href)}" x="${rect.x}" y="${rect.y}" width="${rect.width}" height="${rect.height}" preserveAspectRatio="none" clip-path="url(#background-image-clip)" />`;
+}
+
+// Paper as a repeating pattern anchored at the origin. Lines on the tile edges
+// are drawn on both sides so each tile contributes half of the stroke. The
+// options are kept on the group so importSvg can restore the paper.
+function createSvgPaperElements(
+  paper: PaperOptions,
+  width: number,
+  height: number
+): string {
+  const {
+    spacing = DEFAULT_PAPER_SPACING,
+    color = DEFAULT_PAPER_COLOR,
+    lineWidth = 1,
+    dotSize = 2,
+  } = paper;
+  const s = spacing;
+  const h = (s * Math.sqrt(3)) / 2;
+  const tileHeight = paper.type === "isometric" ? h * 2 : s;
+
+  let tile: string;
+  switch (paper.type) {
+    case "lines":
+      tile = `<path d="M0 0H${s}M0 ${s}H${s}" />`;
+      break;
+    case "grid":
+      tile = `<path d="M0 0H${s}M0 ${s}H${s}M0 0V${s}M${s} 0V${s}" />`;
+      break;
+    case "dots":
+      tile = [
+        [0, 0],
+        [s, 0],
+        [0, s],
+        [s, s],
+      ]
+        .map(
+          ([cx, cy]): string =>
+            `<circle cx="${cx}" cy="${cy}" r="${dotSize / 2}" fill="${color}" stroke="none" />`
+        )
+        .join("");
+      break;
+    case "isometric":
+      tile = `<path d="M0 0H${s}M0 ${h}H${s}M0 ${h * 2}H${s}${[-s, 0, s]
+        .map((x): string => `M${x} 0L${x + s} ${h * 2}`)
+        .join("")}${[0, s, s * 2]
+        .map((x): string => `M${x} 0L${x - s} ${h * 2}`)
+        .join("")}" />`;
+      break;
+  }
+
+  const margin =
+    paper.marginX !== undefined
+      ? `\n  <line x1="${paper.marginX}" y1="0" x2="${paper.marginX}" y2="${height}" stroke="${paper.marginColor ?? DEFAULT_MARGIN_COLOR}" stroke-width="${lineWidth}" />`
+      : "";
+
+  return `<g data-paper="${escapeXml(JSON.stringify(paper))}"><defs><pattern id="paper" x="0" y="0" width="${s}" height="${tileHeight}" patternUnits="userSpaceOnUse"><g fill="none" stroke="${color}" stroke-width="${lineWidth}">${tile}</g></pattern></defs>
+  <rect width="${width}" height="${height}" fill="url(#paper)" />${margin}</g>`;
+}
+
 export function createSvgFromPaths(
   paths: PathData[],
   options: {
     width?: number;
     height?: number;
     backgroundColor?: string;
+    texts?: TextElement[];
+    // When given, content is grouped into one <g> per layer
+    layers?: Layer[];
+    backgroundImage?: SvgBackgroundImage;
+    paper?: PaperOptions;
   } = {}
 ): string {
-  const { width = 1000, height = 1000, backgroundColor = "white" } = options;
+  const {
+    width = 1000,
+    height = 1000,
+    backgroundColor = "white",
+    texts = [],
+    layers,
+    backgroundImage,
+    paper,
+  } = options;
 
-  const svgPaths = paths
-    .map(
-      (path): string =>
-        `<path d="${path.svgPath}" fill="${path.color}" opacity="${path.opacity || 1}" />`
-    )
-    .join("\n");
+  // Text is drawn above the strokes, as on the canvas
+  const body = layers
+    ? getContentByLayer({ paths, texts, layers }).map(
+        ({ layer, paths: layerPaths, texts: layerTexts }): string => {
+          const hidden = layer.visible ? "" : ` display="none"`;
+          const locked = layer.locked ? ` data-locked="true"` : "";
+          return [
+            `<g id="${escapeXml(layer.id)}" data-name="${escapeXml(layer.name)}" opacity="${layer.opacity}"${hidden}${locked}>`,
+            ...createSvgPathElements(layerPaths),
+            ...createSvgTextElements(layerTexts),
+            "</g>",
+          ].join("\n");
+        }
+      )
+    : [...createSvgPathElements(paths), ...createSvgTextElements(texts)];
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
   <rect width="${width}" height="${height}" fill="${backgroundColor}" />
-  ${svgPaths}
+  ${backgroundImage ? createSvgImageElement(backgroundImage) : ""}
+  ${paper ? createSvgPaperElements(paper, width, height) : ""}
+  ${body.join("\n")}
 </svg>`;
 }
 
+// All points of the path, with curves sampled into line segments
 export function parseSvgPath(svgPath: string): number[][] {
-  const points: number[][] = [];
-  const commands = svgPath.match(
-    /[MLHVCSQTAZmlhvcsqtaz][^MLHVCSQTAZmlhvcsqtaz]*/g
-  );
-
-  if (!commands) return points;
-
-  let currentX = 0;
-  let currentY = 0;
-
-  commands.forEach((cmd): void => {
-    const type = cmd[0];
-    const args = cmd
-      .slice(1)
-      .trim()
-      .split(/[\s,]+/)
-      .map(Number);
-
-    switch (type) {
-      case "M":
-      case "L":
-        currentX = args[0];
-        currentY = args[1];
-        points.push([currentX, currentY]);
-        break;
-      case "m":
-      case "l":
-        currentX += args[0];
-        currentY += args[1];
-        points.push([currentX, currentY]);
-        break;
-    }
-  });
-
-  return points;
+  return flattenSvgPath(svgPath)
+    .flat()
+    .map(([x, y]): number[] => [x, y]);
 }
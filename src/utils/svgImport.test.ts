@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { PathData, Point } from "../types";
+import { createDefaultLayers } from "./layers";
+import { regenerateSvgPath } from "./shapes";
+import { createSvgFromPaths } from "./svg";
+import { parseSvgDocument } from "./svgImport";
+
+function createPath(path: Omit<PathData, "svgPath" | "completed">): PathData {
+  const complete = { ...path, svgPath: "", completed: true };
+  return { ...complete, svgPath: regenerateSvgPath(complete) };
+}
+
+const stroke: Point[] = Array.from(
+  { length: 30 },
+  (_, i): Point => [20 + i * 8, 100 + Math.sin(i / 4) * 40, 0.3 + (i % 5) / 10]
+);
+
+const PATHS: PathData[] = [
+  createPath({
+    id: "highlight",
+    points: stroke.map(([x, y]): Point => [x, y + 20]),
+    color: "#ffeb3b",
+    width: 24,
+    opacity: 0.5,
+    blendMode: "multiply",
+    highlighter: true,
+    strokeOptions: { size: 24, thinning: 0, streamline: 0.3 },
+  }),
+  createPath({
+    id: "ink",
+    points: stroke,
+    color: "#1a237e",
+    width: 8,
+    opacity: 1,
+    strokeOptions: { size: 8, thinning: 0.6, start: { taper: 20 } },
+    timestamps: stroke.map((_, i): number => 1000 + i * 16),
+  }),
+  createPath({
+    id: "box",
+    points: [
+      [50, 200],
+      [250, 200],
+      [250, 280],
+      [50, 280],
+      [50, 200],
+    ],
+    color: "#c62828",
+    width: 4,
+    opacity: 0.8,
+    renderStyle: "stroke",
+    shape: { type: "rectangle", start: [50, 200], end: [250, 280] },
+  }),
+];
+
+// Ids are generated on import
+function withoutId(path: PathData): Omit<PathData, "id"> {
+  const rest: Partial<PathData> = { ...path };
+  delete rest.id;
+  return rest as Omit<PathData, "id">;
+}
+
+describe("SVG round trip", (): void => {
+  it("restores paths exported by toSvg as they were drawn", (): void => {
+    const svg = createSvgFromPaths(PATHS, { width: 400, height: 300 });
+    const { paths } = parseSvgDocument(svg);
+
+    expect(paths.map(withoutId)).toEqual(PATHS.map(withoutId));
+  });
+
+  it("restores paths inside layer groups", (): void => {
+    const layers = createDefaultLayers();
+    const onLayer = PATHS.map(
+      (path): PathData => ({ ...path, layerId: layers[0].id })
+    );
+    const svg = createSvgFromPaths(onLayer, {
+      width: 400,
+      height: 300,
+      layers,
+    });
+    const { paths } = parseSvgDocument(svg);
+
+    expect(paths.map(withoutId)).toEqual(onLayer.map(withoutId));
+  });
+
+  it("falls back to the outline when the path data is unusable", (): void => {
+    const svg = createSvgFromPaths([PATHS[1]], {
+      width: 400,
+      height: 300,
+    }).replace(/data-path="[^"]*"/, 'data-path="{&quot;points&quot;:3}"');
+    const [path] = parseSvgDocument(svg).paths;
+
+    expect(path.fromSvg).toBe(true);
+    expect(path.svgPath).toBe(PATHS[1].svgPath);
+    expect(path.renderStyle).toBe("fill");
+  });
+});
@@ -0,0 +1,512 @@
+import type {
+  Layer,
+  PaperOptions,
+  PathData,
+  StrokeBlendMode,
+  SvgImportResult,
+  TextElement,
+} from "../types";
+import { validatePaths } from "./document";
+import { generateId } from "./path";
+import { STROKE_BLEND_MODES } from "./svg";
+import type { AffineMatrix } from "./svgPath";
+import type { XmlNode } from "./xml";
+import { findXmlElement, parseXml } from "./xml";
+import {
+  applyMatrix,
+  flattenSvgPath,
+  IDENTITY_MATRIX,
+  isIdentityMatrix,
+  multiplyMatrices,
+  parseSvgTransform,
+  transformSvgPath,
+} from "./svgPath";
+
+// Inherited presentation properties, resolved down the tree
+interface SvgStyle {
+  matrix: AffineMatrix;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  // Product of the opacities of the element and its ancestors
+  opacity: number;
+  fontSize: number;
+  fontFamily?: string;
+  blendMode?: StrokeBlendMode;
+  layerId?: string;
+}
+
+// Elements whose content is never drawn directly
+const IGNORED_ELEMENTS = new Set([
+  "defs",
+  "pattern",
+  "clipPath",
+  "mask",
+  "marker",
+  "symbol",
+  "style",
+  "script",
+  "linearGradient",
+  "radialGradient",
+  "filter",
+  "title",
+  "desc",
+  "metadata",
+]);
+
+const CONTAINER_ELEMENTS = new Set(["svg", "g", "a", "switch"]);
+
+function parseStyleAttribute(
+  style: string | undefined
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!style) return result;
+  for (const declaration of style.split(";")) {
+    const colon = declaration.indexOf(":");
+    if (colon === -1) continue;
+    result[declaration.slice(0, colon).trim()] = declaration
+      .slice(colon + 1)
+      .replace(/!important/, "")
+      .trim();
+  }
+  return result;
+}
+
+// The style attribute wins over presentation attributes
+function getProperty(node: XmlNode, name: string): string | undefined {
+  return (
+    parseStyleAttribute(node.attributes.style)[name] ?? node.attributes[name]
+  );
+}
+
+function parseLength(value: string | undefined, fallback: number = 0): number {
+  if (value === undefined) return fallback;
+  const number = parseFloat(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+function parseOpacity(value: string | undefined): number {
+  if (value === undefined) return 1;
+  const number = value.trim().endsWith("%")
+    ? parseFloat(value) / 100
+    : parseFloat(value);
+  return Number.isFinite(number) ? Math.max(0, Math.min(1, number)) : 1;
+}
+
+function parseBlendMode(
+  value: string | undefined
+): StrokeBlendMode | undefined {
+  if (!value) return undefined;
+  const mode = value
+    .trim()
+    .replace(/-([a-z])/g, (_, c: string): string => c.toUpperCase());
+  return STROKE_BLEND_MODES.find((blendMode): boolean => blendMode === mode);
+}
+
+// Gradients and patterns can't be represented, so those paints are dropped
+function parsePaint(value: string | undefined, inherited: string): string {
+  if (value === undefined || value === "inherit") return inherited;
+  const paint = value.trim();
+  return paint.startsWith("url(") ? "none" : paint;
+}
+
+function resolveStyle(node: XmlNode, parent: SvgStyle): SvgStyle {
+  const transform = node.attributes.transform;
+  const fontFamily = getProperty(node, "font-family");
+  const blendMode = getProperty(node, "mix-blend-mode");
+  return {
+    ...parent,
+    matrix: transform
+      ? multiplyMatrices(parent.matrix, parseSvgTransform(transform))
+      : parent.matrix,
+    fill: parsePaint(getProperty(node, "fill"), parent.fill),
+    stroke: parsePaint(getProperty(node, "stroke"), parent.stroke),
+    strokeWidth: parseLength(
+      getProperty(node, "stroke-width"),
+      parent.strokeWidth
+    ),
+    fillOpacity:
+      getProperty(node, "fill-opacity") !== undefined
+        ? parseOpacity(getProperty(node, "fill-opacity"))
+        : parent.fillOpacity,
+    strokeOpacity:
+      getProperty(node, "stroke-opacity") !== undefined
+        ? parseOpacity(getProperty(node, "stroke-opacity"))
+        : parent.strokeOpacity,
+    opacity: parent.opacity * parseOpacity(getProperty(node, "opacity")),
+    fontSize: parseLength(getProperty(node, "font-size"), parent.fontSize),
+    fontFamily: fontFamily?.trim() || parent.fontFamily,
+    blendMode:
+      blendMode !== undefined ? parseBlendMode(blendMode) : parent.blendMode,
+  };
+}
+
+function parsePoints(value: string | undefined): number[] {
+  return (value?.match(/[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g) ?? []).map(
+    Number
+  );
+}
+
+function getRectPath(node: XmlNode): string | null {
+  const x = parseLength(node.attributes.x);
+  const y = parseLength(node.attributes.y);
+  const width = parseLength(node.attributes.width);
+  const height = parseLength(node.attributes.height);
+  if (width <= 0 || height <= 0) return null;
+
+  const rxValue = node.attributes.rx;
+  const ryValue = node.attributes.ry;
+  let rx = parseLength(rxValue ?? ryValue);
+  let ry = parseLength(ryValue ?? rxValue);
+  rx = Math.min(Math.max(rx, 0), width / 2);
+  ry = Math.min(Math.max(ry, 0), height / 2);
+
+  if (rx === 0 || ry === 0) {
+    return `M ${x} ${y} H ${x + width} V ${y + height} H ${x} Z`;
+  }
+  return [
+    `M ${x + rx} ${y}`,
+    `H ${x + width - rx}`,
+    `A ${rx} ${ry} 0 0 1 ${x + width} ${y + ry}`,
+    `V ${y + height - ry}`,
+    `A ${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}`,
+    `H ${x + rx}`,
+    `A ${rx} ${ry} 0 0 1 ${x} ${y + height - ry}`,
+    `V ${y + ry}`,
+    `A ${rx} ${ry} 0 0 1 ${x + rx} ${y}`,
+    "Z",
+  ].join(" ");
+}
+
+function getEllipsePath(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number
+): string | null {
+  if (rx <= 0 || ry <= 0) return null;
+  return `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 0 ${cx - rx} ${cy} Z`;
+}
+
+// Path data for the basic shapes, in the element's own coordinates
+function getElementPath(node: XmlNode): string | null {
+  const { attributes } = node;
+  switch (node.name) {
+    case "path":
+      return attributes.d?.trim() || null;
+    case "line":
+      return `M ${parseLength(attributes.x1)} ${parseLength(attributes.y1)} L ${parseLength(attributes.x2)} ${parseLength(attributes.y2)}`;
+    case "polyline":
+    case "polygon": {
+      const values = parsePoints(attributes.points);
+      if (values.length < 4) return null;
+      const d: string[] = [];
+      for (let i = 0; i + 1 < values.length; i += 2) {
+        d.push(`${i === 0 ? "M" : "L"} ${values[i]} ${values[i + 1]}`);
+      }
+      if (node.name === "polygon") d.push("Z");
+      return d.join(" ");
+    }
+    case "rect":
+      return getRectPath(node);
+    case "circle": {
+      const r = parseLength(attributes.r);
+      return getEllipsePath(
+        parseLength(attributes.cx),
+        parseLength(attributes.cy),
+        r,
+        r
+      );
+    }
+    case "ellipse":
+      return getEllipsePath(
+        parseLength(attributes.cx),
+        parseLength(attributes.cy),
+        parseLength(attributes.rx),
+        parseLength(attributes.ry)
+      );
+    default:
+      return null;
+  }
+}
+
+// A path written by toSvg, restored from its data-path attribute. Null when
+// there is none, it doesn't parse or the element has been transformed since.
+function restoreExportedPath(
+  node: XmlNode,
+  d: string,
+  style: SvgStyle
+): PathData | null {
+  const value = node.attributes["data-path"];
+  if (value === undefined || !isIdentityMatrix(style.matrix)) return null;
+
+  let data: Partial<PathData>;
+  try {
+    data = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  const isStroke = data.renderStyle === "stroke";
+  const path: PathData = {
+    id: generateId(),
+    points: data.points ?? [],
+    svgPath: d,
+    color: isStroke ? style.stroke : style.fill,
+    width: data.width ?? 0,
+    opacity:
+      style.opacity * (isStroke ? style.strokeOpacity : style.fillOpacity),
+    ...(style.blendMode ? { blendMode: style.blendMode } : {}),
+    ...(node.attributes["data-highlighter"] === "true"
+      ? { highlighter: true }
+      : {}),
+    ...(data.strokeOptions ? { strokeOptions: data.strokeOptions } : {}),
+    ...(data.renderStyle ? { renderStyle: data.renderStyle } : {}),
+    ...(data.shape ? { shape: data.shape } : {}),
+    ...(style.layerId ? { layerId: style.layerId } : {}),
+    ...(data.timestamps ? { timestamps: data.timestamps } : {}),
+    completed: true,
+  };
+  return validatePaths([path]).length === 0 ? path : null;
+}
+
+function createPaths(node: XmlNode, d: string, style: SvgStyle): PathData[] {
+  const exported = restoreExportedPath(node, d, style);
+  if (exported) return [exported];
+
+  const svgPath = isIdentityMatrix(style.matrix)
+    ? d
+    : transformSvgPath(d, style.matrix);
+  const points = flattenSvgPath(svgPath).flat();
+  if (points.length === 0) return [];
+
+  const base = {
+    svgPath,
+    points,
+    fromSvg: true,
+    completed: true,
+    ...(style.blendMode ? { blendMode: style.blendMode } : {}),
+    ...(node.attributes["data-highlighter"] === "true"
+      ? { highlighter: true }
+      : {}),
+    ...(style.layerId ? { layerId: style.layerId } : {}),
+  };
+  const paths: PathData[] = [];
+
+  // Lines enclose no area, so they are never filled
+  if (style.fill !== "none" && node.name !== "line") {
+    paths.push({
+      ...base,
+      id: generateId(),
+      color: style.fill,
+      width: 0,
+      opacity: style.opacity * style.fillOpacity,
+      renderStyle: "fill",
+    });
+  }
+  if (style.stroke !== "none" && style.strokeWidth > 0) {
+    const [a, b, c, dd] = style.matrix;
+    paths.push({
+      ...base,
+      id: generateId(),
+      color: style.stroke,
+      width: style.strokeWidth * Math.sqrt(Math.abs(a * dd - b * c)),
+      opacity: style.opacity * style.strokeOpacity,
+      renderStyle: "stroke",
+    });
+  }
+  return paths;
+}
+
+// Lines of a <text>: one per <tspan> when it has any, else its own text
+function getTextContent(node: XmlNode): string {
+  const spans = node.children.filter(
+    (child): boolean => child.name === "tspan"
+  );
+  if (spans.length === 0) return node.text.replace(/\s+/g, " ").trim();
+  return spans.map((span): string => getTextContent(span)).join("\n");
+}
+
+// Drops the floating point noise left by composing transforms, so exported
+// rotated text comes back exactly
+function roundNoise(value: number): number {
+  return Math.round(value * 1e9) / 1e9;
+}
+
+function createText(node: XmlNode, style: SvgStyle): TextElement | null {
+  const text = getTextContent(node);
+  if (!text || style.fill === "none") return null;
+
+  const [a, b, c, d] = style.matrix;
+  const [x, y] = applyMatrix(
+    [
+      parsePoints(node.attributes.x)[0] ?? 0,
+      parsePoints(node.attributes.y)[0] ?? 0,
+    ],
+    style.matrix
+  );
+  const rotation = roundNoise(Math.atan2(b, a));
+  return {
+    id: generateId(),
+    text,
+    x: roundNoise(x),
+    y: roundNoise(y),
+    fontSize: roundNoise(style.fontSize * Math.sqrt(Math.abs(a * d - b * c))),
+    color: style.fill,
+    opacity: style.opacity * style.fillOpacity,
+    ...(rotation ? { rotation } : {}),
+    ...(style.fontFamily ? { fontFamily: style.fontFamily } : {}),
+    ...(style.layerId ? { layerId: style.layerId } : {}),
+  };
+}
+
+// A plain rect covering the whole document, as toSvg writes for the
+// background colour
+function isBackgroundRect(
+  node: XmlNode,
+  width: number | undefined,
+  height: number | undefined
+): boolean {
+  const { attributes } = node;
+  const covers = (
+    value: string | undefined,
+    size: number | undefined
+  ): boolean =>
+    value === "100%" || (size !== undefined && parseLength(value) === size);
+  return (
+    node.name === "rect" &&
+    !attributes.transform &&
+    parseLength(attributes.x) === 0 &&
+    parseLength(attributes.y) === 0 &&
+    covers(attributes.width, width) &&
+    covers(attributes.height, height) &&
+    parsePaint(getProperty(node, "fill"), "black") !== "none"
+  );
+}
+
+// Parses paths, basic shapes and text out of an SVG document. Layer groups,
+// the background colour, background image and paper written by toSvg are
+// recognised so exported drawings import back unchanged.
+export function parseSvgDocument(svg: string): SvgImportResult {
+  const root = findXmlElement(parseXml(svg), "svg");
+  if (!root) {
+    throw new Error("No <svg> element found");
+  }
+
+  const viewBox = parsePoints(root.attributes.viewBox);
+  const hasViewBox = viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+  const width =
+    root.attributes.width && !root.attributes.width.endsWith("%")
+      ? parseLength(root.attributes.width)
+      : hasViewBox
+        ? viewBox[2]
+        : undefined;
+  const height =
+    root.attributes.height && !root.attributes.height.endsWith("%")
+      ? parseLength(root.attributes.height)
+      : hasViewBox
+        ? viewBox[3]
+        : undefined;
+
+  let matrix = IDENTITY_MATRIX;
+  if (hasViewBox) {
+    const scaleX = width !== undefined ? width / viewBox[2] : 1;
+    const scaleY = height !== undefined ? height / viewBox[3] : 1;
+    matrix = [scaleX, 0, 0, scaleY, -viewBox[0] * scaleX, -viewBox[1] * scaleY];
+  }
+
+  const result: SvgImportResult = {
+    paths: [],
+    texts: [],
+    layers: [],
+    ...(width !== undefined ? { width } : {}),
+    ...(height !== undefined ? { height } : {}),
+  };
+
+  const visit = (node: XmlNode, parent: SvgStyle, depth: number): void => {
+    if (IGNORED_ELEMENTS.has(node.name)) return;
+
+    const paper = node.attributes["data-paper"];
+    if (paper !== undefined) {
+      try {
+        result.paper = JSON.parse(paper) as PaperOptions;
+      } catch {
+        // Not ours, skip the paper group's drawing all the same
+      }
+      return;
+    }
+
+    // Top-level groups with a name are layers, as written by toSvg. Their
+    // opacity and visibility belong to the layer, not to the content.
+    const layerName = node.attributes["data-name"];
+    if (depth === 1 && node.name === "g" && layerName !== undefined) {
+      const layer: Layer = {
+        id: node.attributes.id || generateId(),
+        name: layerName,
+        visible: getProperty(node, "display") !== "none",
+        locked: node.attributes["data-locked"] === "true",
+        opacity: parseOpacity(getProperty(node, "opacity")),
+      };
+      result.layers.push(layer);
+      const style: SvgStyle = {
+        ...resolveStyle(node, parent),
+        opacity: parent.opacity,
+        layerId: layer.id,
+      };
+      node.children.forEach((child): void => visit(child, style, depth + 1));
+      return;
+    }
+
+    if (getProperty(node, "display") === "none") return;
+    const style = resolveStyle(node, parent);
+
+    if (node.name === "image") {
+      const href = node.attributes.href ?? node.attributes["xlink:href"];
+      if (href && result.backgroundImage === undefined) {
+        result.backgroundImage = href;
+      }
+      return;
+    }
+    if (node.name === "text") {
+      const text = createText(node, style);
+      if (text) result.texts.push(text);
+      return;
+    }
+    if (CONTAINER_ELEMENTS.has(node.name)) {
+      node.children.forEach((child): void => visit(child, style, depth + 1));
+      return;
+    }
+
+    const d = getElementPath(node);
+    if (d) result.paths.push(...createPaths(node, d, style));
+  };
+
+  const rootStyle = resolveStyle(root, {
+    matrix,
+    fill: "black",
+    stroke: "none",
+    strokeWidth: 1,
+    fillOpacity: 1,
+    strokeOpacity: 1,
+    opacity: 1,
+    fontSize: 16,
+  });
+  root.children.forEach((child, index): void => {
+    if (
+      index === 0 &&
+      result.backgroundColor === undefined &&
+      isBackgroundRect(
+        child,
+        hasViewBox ? viewBox[2] : width,
+        hasViewBox ? viewBox[3] : height
+      )
+    ) {
+      result.backgroundColor = parsePaint(getProperty(child, "fill"), "black");
+      return;
+    }
+    visit(child, rootStyle, 1);
+  });
+
+  return result;
+}
@@ -0,0 +1,529 @@
+import type { Point } from "../types";
+
+// 2D affine matrix in SVG order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type AffineMatrix = [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: AffineMatrix = [1, 0, 0, 1, 0, 0];
+
+// Path commands in absolute coordinates. H/V, S and T are expanded into
+// L, C and Q while parsing.
+export type SvgPathCommand =
+  | { type: "M"; x: number; y: number }
+  | { type: "L"; x: number; y: number }
+  | {
+      type: "C";
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      x: number;
+      y: number;
+    }
+  | { type: "Q"; x1: number; y1: number; x: number; y: number }
+  | {
+      type: "A";
+      rx: number;
+      ry: number;
+      rotation: number;
+      largeArc: boolean;
+      sweep: boolean;
+      x: number;
+      y: number;
+    }
+  | { type: "Z" };
+
+// Distance between samples when flattening curves, in path units
+const CURVE_STEP = 4;
+const MAX_CURVE_SEGMENTS = 64;
+
+const NUMBER = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+
+// Applies n first, then m
+export function multiplyMatrices(
+  m: AffineMatrix,
+  n: AffineMatrix
+): AffineMatrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+export function applyMatrix(point: Point, m: AffineMatrix): Point {
+  const x = m[0] * point[0] + m[2] * point[1] + m[4];
+  const y = m[1] * point[0] + m[3] * point[1] + m[5];
+  return point[2] !== undefined ? [x, y, point[2]] : [x, y];
+}
+
+export function isIdentityMatrix(m: AffineMatrix): boolean {
+  return m.every((value, i): boolean => value === IDENTITY_MATRIX[i]);
+}
+
+// Parses an SVG transform attribute such as "translate(10 20) rotate(45)"
+export function parseSvgTransform(value: string): AffineMatrix {
+  let result = IDENTITY_MATRIX;
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value))) {
+    const args = match[2]
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number);
+    let m: AffineMatrix = IDENTITY_MATRIX;
+
+    switch (match[1]) {
+      case "matrix":
+        if (args.length === 6) m = args as AffineMatrix;
+        break;
+      case "translate":
+        m = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case "scale":
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case "rotate": {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const cx = args[1] ?? 0;
+        const cy = args[2] ?? 0;
+        m = [
+          cos,
+          sin,
+          -sin,
+          cos,
+          cx - cos * cx + sin * cy,
+          cy - sin * cx - cos * cy,
+        ];
+        break;
+      }
+      case "skewX":
+        m = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case "skewY":
+        m = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    result = multiplyMatrices(result, m);
+  }
+  return result;
+}
+
+// Parses path data into absolute commands. Like browsers, parsing stops at
+// the first malformed command and keeps everything before it.
+export function parseSvgPathCommands(d: string): SvgPathCommand[] {
+  const commands: SvgPathCommand[] = [];
+  let i = 0;
+
+  const skipSeparators = (): void => {
+    while (i < d.length && /[\s,]/.test(d[i])) i++;
+  };
+  const readNumber = (): number | null => {
+    skipSeparators();
+    NUMBER.lastIndex = i;
+    const match = NUMBER.exec(d);
+    if (!match) return null;
+    i = NUMBER.lastIndex;
+    return parseFloat(match[0]);
+  };
+  // Arc flags are single digits and may be written without separators
+  const readFlag = (): boolean | null => {
+    skipSeparators();
+    const char = d[i];
+    if (char !== "0" && char !== "1") return null;
+    i++;
+    return char === "1";
+  };
+  const readNumbers = (count: number): number[] | null => {
+    const values: number[] = [];
+    for (let n = 0; n < count; n++) {
+      const value = readNumber();
+      if (value === null) return null;
+      values.push(value);
+    }
+    return values;
+  };
+
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Last control points, for the reflected control point of S and T
+  let cubicControl: [number, number] | null = null;
+  let quadControl: [number, number] | null = null;
+
+  while (true) {
+    skipSeparators();
+    if (i >= d.length) break;
+
+    const letter = d[i];
+    if (!/[MLHVCSQTAZmlhvcsqtaz]/.test(letter)) break;
+    i++;
+
+    const type = letter.toUpperCase();
+    const relative = letter !== type;
+
+    if (type === "Z") {
+      commands.push({ type: "Z" });
+      x = startX;
+      y = startY;
+      cubicControl = null;
+      quadControl = null;
+      continue;
+    }
+
+    // A command letter may be followed by several parameter sets
+    let first = true;
+    while (true) {
+      const ox = relative ? x : 0;
+      const oy = relative ? y : 0;
+      let nextCubic: [number, number] | null = null;
+      let nextQuad: [number, number] | null = null;
+
+      if (type === "M" || type === "L" || type === "T") {
+        const values = readNumbers(2);
+        if (!values) break;
+        const nx = ox + values[0];
+        const ny = oy + values[1];
+
+        if (type === "M" && first) {
+          commands.push({ type: "M", x: nx, y: ny });
+          startX = nx;
+          startY = ny;
+        } else if (type === "T") {
+          const x1: number = quadControl ? 2 * x - quadControl[0] : x;
+          const y1: number = quadControl ? 2 * y - quadControl[1] : y;
+          commands.push({ type: "Q", x1, y1, x: nx, y: ny });
+          nextQuad = [x1, y1];
+        } else {
+          // Extra pairs after a moveto are implicit linetos
+          commands.push({ type: "L", x: nx, y: ny });
+        }
+        x = nx;
+        y = ny;
+      } else if (type === "H" || type === "V") {
+        const value = readNumber();
+        if (value === null) break;
+        if (type === "H") x = ox + value;
+        else y = oy + value;
+        commands.push({ type: "L", x, y });
+      } else if (type === "C" || type === "S") {
+        const values = readNumbers(type === "C" ? 6 : 4);
+        if (!values) break;
+        let x1: number;
+        let y1: number;
+        let rest: number[];
+        if (type === "C") {
+          x1 = ox + values[0];
+          y1 = oy + values[1];
+          rest = values.slice(2);
+        } else {
+          [x1, y1] = cubicControl
+            ? [2 * x - cubicControl[0], 2 * y - cubicControl[1]]
+            : [x, y];
+          rest = values;
+        }
+        const x2 = ox + rest[0];
+        const y2 = oy + rest[1];
+        x = ox + rest[2];
+        y = oy + rest[3];
+        commands.push({ type: "C", x1, y1, x2, y2, x, y });
+        nextCubic = [x2, y2];
+      } else if (type === "Q") {
+        const values = readNumbers(4);
+        if (!values) break;
+        const x1 = ox + values[0];
+        const y1 = oy + values[1];
+        x = ox + values[2];
+        y = oy + values[3];
+        commands.push({ type: "Q", x1, y1, x, y });
+        nextQuad = [x1, y1];
+      } else {
+        const radii = readNumbers(3);
+        const largeArc = radii ? readFlag() : null;
+        const sweep = largeArc !== null ? readFlag() : null;
+        const end = sweep !== null ? readNumbers(2) : null;
+        if (!radii || largeArc === null || sweep === null || !end) break;
+        x = ox + end[0];
+        y = oy + end[1];
+        commands.push({
+          type: "A",
+          rx: radii[0],
+          ry: radii[1],
+          rotation: radii[2],
+          largeArc,
+          sweep,
+          x,
+          y,
+        });
+      }
+
+      cubicControl = nextCubic;
+      quadControl = nextQuad;
+      first = false;
+    }
+
+    // A command without a single complete parameter set is malformed
+    if (first) break;
+  }
+
+  return commands;
+}
+
+// Converts an arc from (x0, y0) into cubic Béziers of at most 90 degrees each,
+// using the endpoint to centre conversion from the SVG specification
+function arcToCubics(
+  x0: number,
+  y0: number,
+  arc: Extract<SvgPathCommand, { type: "A" }>
+): Extract<SvgPathCommand, { type: "C" }>[] {
+  const { x, y, largeArc, sweep } = arc;
+  let rx = Math.abs(arc.rx);
+  let ry = Math.abs(arc.ry);
+  if (rx === 0 || ry === 0 || (x === x0 && y === y0)) {
+    return rx === 0 || ry === 0
+      ? [{ type: "C", x1: x0, y1: y0, x2: x, y2: y, x, y }]
+      : [];
+  }
+
+  const phi = (arc.rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x0 - x) / 2;
+  const dy = (y0 - y) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Radii too small to reach the end point are scaled up
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator =
+    rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient =
+    (largeArc !== sweep ? 1 : -1) *
+    Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x0 + x) / 2;
+  const cy = sin * cxp + cos * cyp + (y0 + y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number): number =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const ux = (x1p - cxp) / rx;
+  const uy = (y1p - cyp) / ry;
+  const theta = angle(1, 0, ux, uy);
+  let delta = angle(ux, uy, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= Math.PI * 2;
+  if (sweep && delta < 0) delta += Math.PI * 2;
+
+  const toPath = (px: number, py: number): [number, number] => [
+    cx + rx * px * cos - ry * py * sin,
+    cy + rx * px * sin + ry * py * cos,
+  ];
+
+  const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / segments;
+  const alpha = (4 / 3) * Math.tan(step / 4);
+  const cubics: Extract<SvgPathCommand, { type: "C" }>[] = [];
+
+  for (let s = 0; s < segments; s++) {
+    const t1 = theta + s * step;
+    const t2 = t1 + step;
+    const [x1, y1] = toPath(
+      Math.cos(t1) - alpha * Math.sin(t1),
+      Math.sin(t1) + alpha * Math.cos(t1)
+    );
+    const [x2, y2] = toPath(
+      Math.cos(t2) + alpha * Math.sin(t2),
+      Math.sin(t2) - alpha * Math.cos(t2)
+    );
+    const [ex, ey] =
+      s === segments - 1 ? [x, y] : toPath(Math.cos(t2), Math.sin(t2));
+    cubics.push({ type: "C", x1, y1, x2, y2, x: ex, y: ey });
+  }
+  return cubics;
+}
+
+// Replaces arcs with equivalent cubic Béziers, which stay exact under any
+// affine transform
+export function arcsToCubics(commands: SvgPathCommand[]): SvgPathCommand[] {
+  const result: SvgPathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+
+  for (const command of commands) {
+    if (command.type === "A") {
+      result.push(...arcToCubics(x, y, command));
+    } else {
+      result.push(command);
+    }
+
+    if (command.type === "Z") {
+      x = startX;
+      y = startY;
+    } else {
+      x = command.x;
+      y = command.y;
+      if (command.type === "M") {
+        startX = x;
+        startY = y;
+      }
+    }
+  }
+  return result;
+}
+
+function serializeSvgPathCommands(commands: SvgPathCommand[]): string {
+  return commands
+    .map((command): string => {
+      switch (command.type) {
+        case "M":
+        case "L":
+          return `${command.type} ${command.x} ${command.y}`;
+        case "C":
+          return `C ${command.x1} ${command.y1} ${command.x2} ${command.y2} ${command.x} ${command.y}`;
+        case "Q":
+          return `Q ${command.x1} ${command.y1} ${command.x} ${command.y}`;
+        case "A":
+          return `A ${command.rx} ${command.ry} ${command.rotation} ${command.largeArc ? 1 : 0} ${command.sweep ? 1 : 0} ${command.x} ${command.y}`;
+        case "Z":
+          return "Z";
+      }
+    })
+    .join(" ");
+}
+
+export function transformSvgPath(d: string, m: AffineMatrix): string {
+  const point = (x: number, y: number): [number, number] => [
+    m[0] * x + m[2] * y + m[4],
+    m[1] * x + m[3] * y + m[5],
+  ];
+
+  return serializeSvgPathCommands(
+    arcsToCubics(parseSvgPathCommands(d)).map((command): SvgPathCommand => {
+      switch (command.type) {
+        case "M":
+        case "L": {
+          const [x, y] = point(command.x, command.y);
+          return { type: command.type, x, y };
+        }
+        case "C": {
+          const [x1, y1] = point(command.x1, command.y1);
+          const [x2, y2] = point(command.x2, command.y2);
+          const [x, y] = point(command.x, command.y);
+          return { type: "C", x1, y1, x2, y2, x, y };
+        }
+        case "Q": {
+          const [x1, y1] = point(command.x1, command.y1);
+          const [x, y] = point(command.x, command.y);
+          return { type: "Q", x1, y1, x, y };
+        }
+        default:
+          return command;
+      }
+    })
+  );
+}
+
+function curveSegments(length: number): number {
+  return Math.min(
+    MAX_CURVE_SEGMENTS,
+    Math.max(1, Math.ceil(length / CURVE_STEP))
+  );
+}
+
+// Samples the path into polylines, one per subpath. Closed subpaths end with
+// their first point.
+export function flattenSvgPath(d: string): Point[][] {
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let x = 0;
+  let y = 0;
+
+  const startSubpath = (sx: number, sy: number): void => {
+    if (current.length > 0) subpaths.push(current);
+    current = [[sx, sy]];
+  };
+
+  for (const command of arcsToCubics(parseSvgPathCommands(d))) {
+    switch (command.type) {
+      case "M":
+        startSubpath(command.x, command.y);
+        break;
+      case "L":
+        if (current.length === 0) current = [[x, y]];
+        current.push([command.x, command.y]);
+        break;
+      case "C": {
+        if (current.length === 0) current = [[x, y]];
+        const { x1, y1, x2, y2 } = command;
+        const segments = curveSegments(
+          Math.hypot(x1 - x, y1 - y) +
+            Math.hypot(x2 - x1, y2 - y1) +
+            Math.hypot(command.x - x2, command.y - y2)
+        );
+        for (let s = 1; s <= segments; s++) {
+          const t = s / segments;
+          const mt = 1 - t;
+          current.push([
+            mt * mt * mt * x +
+              3 * mt * mt * t * x1 +
+              3 * mt * t * t * x2 +
+              t * t * t * command.x,
+            mt * mt * mt * y +
+              3 * mt * mt * t * y1 +
+              3 * mt * t * t * y2 +
+              t * t * t * command.y,
+          ]);
+        }
+        break;
+      }
+      case "Q": {
+        if (current.length === 0) current = [[x, y]];
+        const { x1, y1 } = command;
+        const segments = curveSegments(
+          Math.hypot(x1 - x, y1 - y) +
+            Math.hypot(command.x - x1, command.y - y1)
+        );
+        for (let s = 1; s <= segments; s++) {
+          const t = s / segments;
+          const mt = 1 - t;
+          current.push([
+            mt * mt * x + 2 * mt * t * x1 + t * t * command.x,
+            mt * mt * y + 2 * mt * t * y1 + t * t * command.y,
+          ]);
+        }
+        break;
+      }
+      case "Z":
+        if (current.length > 0) {
+          const [sx, sy] = current[0];
+          current.push([sx, sy]);
+          // Drawing after Z continues from the subpath start
+          subpaths.push(current);
+          current = [];
+          x = sx;
+          y = sy;
+        }
+        continue;
+    }
+
+    x = command.x;
+    y = command.y;
+  }
+
+  if (current.length > 0) subpaths.push(current);
+  return subpaths;
+}
@@ -0,0 +1,70 @@
+import type { Point, TextElement } from "../types";
+
+// Line spacing as a multiple of the font size
+export const TEXT_LINE_HEIGHT = 1.2;
+
+// Average glyph advance and ascent relative to the font size. Good enough for
+// hit-testing without measuring with a real font.
+const AVERAGE_CHAR_WIDTH = 0.6;
+const ASCENT = 0.8;
+
+export function getTextLines(text: TextElement): string[] {
+  return text.text.split(/\r?\n/);
+}
+
+// Approximate box around the text before rotation, relative to (x, y)
+export function getTextBox(text: TextElement): {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+} {
+  const lines = getTextLines(text);
+  const longest = Math.max(...lines.map((line): number => line.length));
+  return {
+    left: 0,
+    top: -text.fontSize * ASCENT,
+    width: longest * text.fontSize * AVERAGE_CHAR_WIDTH,
+    height:
+      text.fontSize * ASCENT +
+      (lines.length - 1) * text.fontSize * TEXT_LINE_HEIGHT +
+      text.fontSize * (1 - ASCENT),
+  };
+}
+
+// Topmost text whose box (grown by the tolerance) contains the point
+export function findTextAt(
+  texts: TextElement[],
+  point: Point,
+  tolerance: number = 0
+): TextElement | null {
+  for (let i = texts.length - 1; i >= 0; i--) {
+    const text = texts[i];
+    // Undo the rotation so the point can be compared against the upright box
+    const rotation = -(text.rotation ?? 0);
+    const dx = point[0] - text.x;
+    const dy = point[1] - text.y;
+    const x = dx * Math.cos(rotation) - dy * Math.sin(rotation);
+    const y = dx * Math.sin(rotation) + dy * Math.cos(rotation);
+
+    const box = getTextBox(text);
+    if (
+      x >= box.left - tolerance &&
+      x <= box.left + box.width + tolerance &&
+      y >= box.top - tolerance &&
+      y <= box.top + box.height + tolerance
+    ) {
+      return text;
+    }
+  }
+  return null;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,115 @@
+export interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  // Character data directly inside the element
+  text: string;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g,
+    (entity, code: string): string => {
+      switch (code) {
+        case "lt":
+          return "<";
+        case "gt":
+          return ">";
+        case "amp":
+          return "&";
+        case "quot":
+          return '"';
+        case "apos":
+          return "'";
+      }
+      const point =
+        code[1] === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+  );
+}
+
+// Minimal XML parser, enough for SVG and InkML files: elements, attributes,
+// text and CDATA. Comments, processing instructions and doctypes are
+// skipped. Returns an unnamed node holding the top-level elements.
+export function parseXml(xml: string): XmlNode {
+  const root: XmlNode = { name: "", attributes: {}, children: [], text: "" };
+  const stack: XmlNode[] = [root];
+  const tag =
+    /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/y;
+  const attribute = /([^\s=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+  let index = 0;
+
+  while (index < xml.length) {
+    const parent = stack[stack.length - 1];
+    const next = xml.indexOf("<", index);
+    if (next === -1) {
+      parent.text += decodeEntities(xml.slice(index));
+      break;
+    }
+    if (next > index) parent.text += decodeEntities(xml.slice(index, next));
+    index = next;
+
+    if (xml.startsWith("<!--", index)) {
+      const end = xml.indexOf("-->", index);
+      index = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith("<![CDATA[", index)) {
+      const end = xml.indexOf("]]>", index);
+      parent.text += xml.slice(index + 9, end === -1 ? xml.length : end);
+      index = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith("<?", index) || xml.startsWith("<!", index)) {
+      const end = xml.indexOf(">", index);
+      index = end === -1 ? xml.length : end + 1;
+      continue;
+    }
+
+    tag.lastIndex = index;
+    const match = tag.exec(xml);
+    if (!match) {
+      // Stray "<", keep it as text
+      parent.text += "<";
+      index++;
+      continue;
+    }
+    index = tag.lastIndex;
+
+    const [, closing, name, rawAttributes, selfClosing] = match;
+    if (closing) {
+      const open = stack.map((node): string => node.name).lastIndexOf(name);
+      if (open > 0) stack.length = open;
+      continue;
+    }
+
+    const node: XmlNode = { name, attributes: {}, children: [], text: "" };
+    let attr: RegExpExecArray | null;
+    attribute.lastIndex = 0;
+    while ((attr = attribute.exec(rawAttributes))) {
+      node.attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? "");
+    }
+    parent.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  return root;
+}
+
+// Element name without its namespace prefix
+export function getLocalName(node: XmlNode): string {
+  return node.name.slice(node.name.indexOf(":") + 1);
+}
+
+// First element with the given local name, depth first
+export function findXmlElement(node: XmlNode, name: string): XmlNode | null {
+  if (getLocalName(node) === name) return node;
+  for (const child of node.children) {
+    const found = findXmlElement(child, name);
+    if (found) return found;
+  }
+  return null;
+}